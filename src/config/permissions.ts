@@ -0,0 +1,74 @@
+// Role → permission map for organization members. Platform admins (`User.role === 'admin'`)
+// hold every permission regardless of their organization role.
+
+export const PERMISSIONS = [
+  'profile:read',
+  'profile:write',
+  'product:read',
+  'product:write',
+  'product:delete',
+  'report:read',
+  'report:write',
+  'report:delete',
+  'report:approve',
+  'ai:use',
+  'user:manage',
+  'organization:manage',
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const ORGANIZATION_ROLES = ['owner', 'org-admin', 'reviewer', 'editor', 'viewer'] as const
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number]
+
+const VIEWER: Permission[] = ['profile:read', 'profile:write', 'product:read', 'report:read']
+const EDITOR: Permission[] = [...VIEWER, 'product:write', 'report:write', 'ai:use']
+const REVIEWER: Permission[] = [...VIEWER, 'report:approve']
+const ORG_ADMIN: Permission[] = [
+  ...EDITOR,
+  'report:approve',
+  'product:delete',
+  'report:delete',
+  'user:manage',
+  'organization:manage',
+]
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  owner: ORG_ADMIN,
+  'org-admin': ORG_ADMIN,
+  reviewer: REVIEWER,
+  editor: EDITOR,
+  viewer: VIEWER,
+}
+
+export const hasPermission = (
+  user: { role: string; organizationRole?: OrganizationRole },
+  permission: Permission
+): boolean => {
+  if (user.role === 'admin') return true
+  return !!user.organizationRole && ROLE_PERMISSIONS[user.organizationRole].includes(permission)
+}
+
+// Scopes an API key can carry. A key never exceeds the permissions of the user who
+// created it, and cannot reach profile, member or organization management.
+export const API_KEY_SCOPES = [
+  'products:read',
+  'products:write',
+  'reports:read',
+  'reports:write',
+  'ai:use',
+] as const
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+export const API_KEY_SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  'products:read': ['product:read'],
+  'products:write': ['product:read', 'product:write'],
+  'reports:read': ['report:read'],
+  'reports:write': ['report:read', 'report:write'],
+  'ai:use': ['ai:use'],
+}
+
+export const scopesGrantPermission = (scopes: readonly ApiKeyScope[], permission: Permission): boolean =>
+  scopes.some(scope => API_KEY_SCOPE_PERMISSIONS[scope].includes(permission))
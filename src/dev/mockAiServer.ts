@@ -0,0 +1,64 @@
+// Local stand-in for the AI microservice so the full report flow can run offline.
+// Responses come from the deterministic fallback engine.
+//
+//   npm run mock:ai
+//
+// MOCK_AI_PORT         port to listen on (default 8000, matching AI_SERVICE_URL in env.example)
+// MOCK_AI_LATENCY_MS   artificial delay added to every response
+// MOCK_AI_FAIL_EVERY   answer every Nth request with a 503, to exercise retries
+// MOCK_AI_DOWN=true    answer every request with a 503, to trip the circuit breaker
+
+import express, { NextFunction, Request, Response } from 'express'
+import { generateFallbackAnalysis, calculateFallbackScore, generateFallbackQuestions } from '../services/fallbackEngine'
+import {
+  AnalyzeProductRequest,
+  AnalyzeProductResponse,
+  GenerateQuestionsRequest,
+  GenerateQuestionsResponse,
+  TransparencyScoreRequest,
+  TransparencyScoreResponse,
+} from '../types/ai'
+
+const PORT = Number(process.env.MOCK_AI_PORT) || 8000
+const LATENCY_MS = Number(process.env.MOCK_AI_LATENCY_MS) || 0
+const FAIL_EVERY = Number(process.env.MOCK_AI_FAIL_EVERY) || 0
+const DOWN = process.env.MOCK_AI_DOWN === 'true'
+
+const app = express()
+app.use(express.json({ limit: '10mb' }))
+
+let requestCount = 0
+
+app.use('/api/ai', (req: Request, res: Response, next: NextFunction) => {
+  requestCount += 1
+  console.log(`[mock-ai] #${requestCount} ${req.method} ${req.originalUrl}`)
+
+  if (DOWN || (FAIL_EVERY > 0 && requestCount % FAIL_EVERY === 0)) {
+    setTimeout(() => res.status(503).json({ error: 'Mock AI service unavailable' }), LATENCY_MS)
+    return
+  }
+  setTimeout(next, LATENCY_MS)
+})
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'OK', mock: true, requests: requestCount })
+})
+
+app.post('/api/ai/generate-questions', (req: Request<unknown, unknown, GenerateQuestionsRequest>, res: Response) => {
+  const body: GenerateQuestionsResponse = { questions: generateFallbackQuestions(req.body.productData || {}) }
+  res.json(body)
+})
+
+app.post('/api/ai/transparency-score', (req: Request<unknown, unknown, TransparencyScoreRequest>, res: Response) => {
+  const body: TransparencyScoreResponse = calculateFallbackScore(req.body.productData || {}, req.body.answers || {})
+  res.json(body)
+})
+
+app.post('/api/ai/analyze-product', (req: Request<unknown, unknown, AnalyzeProductRequest>, res: Response) => {
+  const body: AnalyzeProductResponse = generateFallbackAnalysis(req.body.product || {}, req.body.answers || {})
+  res.json(body)
+})
+
+app.listen(PORT, () => {
+  console.log(`🤖 Mock AI service listening on http://localhost:${PORT}`)
+})
@@ -16,6 +16,17 @@ import { authRoutes } from './routes/auth'
 import { productRoutes } from './routes/products'
 import { reportRoutes } from './routes/reports'
 import { aiRoutes } from './routes/ai'
+import { rubricRoutes } from './routes/rubrics'
+import { recomputeRoutes } from './routes/recompute'
+import { adminOrganizationRoutes } from './routes/adminOrganizations'
+import { organizationRoutes } from './routes/organizations'
+import { adminUserRoutes } from './routes/adminUsers'
+import { adminSecurityRoutes } from './routes/adminSecurity'
+import { adminIngredientRoutes } from './routes/adminIngredients'
+import { apiKeyRoutes } from './routes/apiKeys'
+import { aiClient } from './services/aiClient'
+import { startReportWorker, stopReportWorker } from './services/reportWorker'
+import { getClientIp, getUserAgent } from './utils/request'
 
 // ========== Load environment variables ==========
 const envLocalPath = path.resolve(__dirname, '../env.local')
@@ -31,6 +42,10 @@ if (fs.existsSync(envLocalPath)) {
 const app = express()
 const PORT = Number(process.env.PORT) || 5000
 
+// Number of reverse proxies in front of the app; req.ip is read from X-Forwarded-For only past these
+const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS || '0', 10)
+app.set('trust proxy', Number.isFinite(trustProxyHops) && trustProxyHops > 0 ? trustProxyHops : false)
+
 // ========== Security & utility middleware ==========
 app.use(helmet())
 app.use(compression())
@@ -65,8 +80,7 @@ app.use(morgan('combined'))
 // ========== Debugging middleware ==========
 app.use((req: any, res: any, next: any) => {
   try {
-    const ip = req.headers['x-forwarded-for'] || req.ip || req.connection?.remoteAddress
-    console.log('INCOMING PROBE', { method: req.method, url: req.originalUrl || req.url, ip, ua: req.headers['user-agent'] })
+    console.log('INCOMING PROBE', { method: req.method, url: req.originalUrl || req.url, ip: getClientIp(req), ua: getUserAgent(req) })
   } catch {
     console.log('INCOMING PROBE: failed to read request metadata')
   }
@@ -85,6 +99,7 @@ app.get('/health', (req, res) => {
     uptime: process.uptime(),
     environment: process.env.NODE_ENV,
     database: mongoose.connection.readyState === 1 ? 'connected' : 'disconnected',
+    aiService: aiClient.getStatus(),
   })
 })
 
@@ -93,50 +108,19 @@ app.use('/api/auth', authRoutes)
 app.use('/api/products', productRoutes)
 app.use('/api/reports', reportRoutes)
 app.use('/api/ai', aiRoutes)
+app.use('/api/admin/rubrics', rubricRoutes)
+app.use('/api/admin/recompute', recomputeRoutes)
+app.use('/api/admin/organizations', adminOrganizationRoutes)
+app.use('/api/admin/users', adminUserRoutes)
+app.use('/api/admin/security', adminSecurityRoutes)
+app.use('/api/admin/ingredients', adminIngredientRoutes)
+app.use('/api/organizations', organizationRoutes)
+app.use('/api/api-keys', apiKeyRoutes)
 
 // ========== Error handlers ==========
 app.use(notFound)
 app.use(errorHandler)
 
-// ========== AI helper functions ==========
-const AI_SERVICE_URL = process.env.AI_SERVICE_URL
-
-export async function generateQuestions(inputData: any) {
-  try {
-    const response = await axios.post(`${AI_SERVICE_URL}/api/ai/generate-questions`, { productData: inputData })
-    return response.data
-  } catch (error: any) {
-    console.error('Error generating questions:', error.message)
-    return { success: false, error: 'AI service error' }
-  }
-}
-
-export async function calculateTransparencyScore(inputData: any, answers: any) {
-  try {
-    const response = await axios.post(`${AI_SERVICE_URL}/api/ai/transparency-score`, {
-      productData: inputData,
-      answers,
-    })
-    return response.data
-  } catch (error: any) {
-    console.error('Error calculating transparency score:', error.message)
-    return { success: false, error: 'AI service error' }
-  }
-}
-
-export async function analyzeProduct(inputData: any, answers: any) {
-  try {
-    const response = await axios.post(`${AI_SERVICE_URL}/api/ai/analyze-product`, {
-      product: inputData,
-      answers,
-    })
-    return response.data
-  } catch (error: any) {
-    console.error('Error analyzing product:', error.message)
-    return { success: false, error: 'AI service error' }
-  }
-}
-
 // ========== Database connection ==========
 const connectDB = async () => {
   try {
@@ -175,9 +159,11 @@ const startServer = () => {
       }
     })
 
-    connectDB().catch(err => {
-      console.error('❌ MongoDB connection failed (async):', err)
-    })
+    connectDB()
+      .then(() => startReportWorker())
+      .catch(err => {
+        console.error('❌ MongoDB connection failed (async):', err)
+      })
   } catch (error) {
     console.error('❌ Failed to start server:', error)
     process.exit(1)
@@ -197,6 +183,7 @@ process.on('uncaughtException', (err: Error) => {
 
 process.on('SIGTERM', async () => {
   console.log('🛑 SIGTERM received, shutting down gracefully')
+  stopReportWorker()
   try {
     await mongoose.connection.close()
     console.log('📦 MongoDB connection closed')
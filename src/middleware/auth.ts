@@ -1,12 +1,43 @@
 import { Request, Response, NextFunction } from 'express'
-import jwt from 'jsonwebtoken'
 import { User, IUser } from '../models/User'
+import { Session } from '../models/Session'
+import { IApiKey } from '../models/ApiKey'
+import { Permission, hasPermission, scopesGrantPermission } from '../config/permissions'
+import { ensureUserOrganization } from '../services/tenancy'
+import { AuthTokenError, touchSession, verifyAccessToken } from '../services/tokens'
+import { touchApiKey, verifyApiKey } from '../services/apiKeys'
+import { getClientIp } from '../utils/request'
+import { isTwoFactorRequired } from '../services/twoFactor'
 
 interface AuthRequest extends Request {
   user?: IUser
+  sessionId?: string
+  apiKey?: IApiKey
+}
+
+// Integrations authenticate with an `X-API-Key` header instead of a Bearer token
+const authenticateApiKey = async (req: AuthRequest, res: Response, next: NextFunction, rawKey: string): Promise<void> => {
+  try {
+    const { apiKey, user } = await verifyApiKey(rawKey)
+    touchApiKey(apiKey, getClientIp(req)).catch(error => {
+      console.error('Failed to update API key activity:', (error as Error).message)
+    })
+
+    req.user = user
+    req.apiKey = apiKey
+    next()
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: error instanceof AuthTokenError ? error.message : 'Not authorized, API key failed'
+    })
+  }
 }
 
 export const protect = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const apiKeyHeader = req.header('x-api-key')
+  if (apiKeyHeader) return authenticateApiKey(req, res, next, apiKeyHeader)
+
   try {
     let token: string | undefined
 
@@ -24,7 +55,7 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
     }
 
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string }
+    const decoded = verifyAccessToken(token)
     
     // Get user from token
     const user = await User.findById(decoded.id).select('+password')
@@ -45,6 +76,34 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
       return
     }
 
+    // JWT iat has second precision, so compare at that precision
+    if (user.sessionsInvalidatedAt && (decoded.iat ?? 0) < Math.floor(user.sessionsInvalidatedAt.getTime() / 1000)) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authorized, session has been revoked'
+      })
+      return
+    }
+
+    // Access tokens stay valid only while their session does
+    if (decoded.sid) {
+      const session = await Session.findById(decoded.sid).select('userId revokedAt expiresAt lastUsedAt')
+      if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now() || !session.userId.equals(user._id)) {
+        res.status(401).json({
+          success: false,
+          error: 'Not authorized, session has been revoked'
+        })
+        return
+      }
+      req.sessionId = session._id.toString()
+      touchSession(session, { ip: getClientIp(req) }).catch(error => {
+        console.error('Failed to update session activity:', (error as Error).message)
+      })
+    }
+
+    // Accounts created before tenancy get their organization on first use
+    await ensureUserOrganization(user)
+
     req.user = user
     next()
     return
@@ -57,8 +116,49 @@ export const protect = async (req: AuthRequest, res: Response, next: NextFunctio
   }
 }
 
+const PROFILE_PERMISSIONS: Permission[] = ['profile:read', 'profile:write']
+
+const rejectApiKey = (res: Response) => {
+  res.status(403).json({
+    success: false,
+    error: 'This route cannot be accessed with an API key'
+  })
+}
+
+// For account actions that only a signed-in person should take
+export const requireUserSession = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    rejectApiKey(res)
+    return
+  }
+  next()
+}
+
+// Users whose role requires 2FA can only reach their profile until they enroll
+const rejectWithoutTwoFactor = async (req: AuthRequest, res: Response): Promise<boolean> => {
+  if (!req.user || req.user.twoFactorEnabled) return false
+
+  try {
+    if (!(await isTwoFactorRequired(req.user))) return false
+  } catch (error) {
+    console.error('Two-factor policy check failed:', (error as Error).message)
+    res.status(500).json({
+      success: false,
+      error: 'Server error checking two-factor policy'
+    })
+    return true
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'Two-factor authentication is required for your role',
+    twoFactorSetupRequired: true
+  })
+  return true
+}
+
 export const authorize = (...roles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -67,6 +167,11 @@ export const authorize = (...roles: string[]) => {
       return
     }
 
+    if (req.apiKey) {
+      rejectApiKey(res)
+      return
+    }
+
     if (!roles.includes(req.user.role)) {
       res.status(403).json({
         success: false,
@@ -75,6 +180,51 @@ export const authorize = (...roles: string[]) => {
       return
     }
 
+    if (await rejectWithoutTwoFactor(req, res)) return
+
+    next()
+    return
+  }
+}
+
+// Requires every listed permission; platform admins hold them all
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authorized'
+      })
+      return
+    }
+
+    const missing = permissions.find(permission => !hasPermission(req.user!, permission))
+    if (missing) {
+      res.status(403).json({
+        success: false,
+        error: `Missing permission: ${missing}`,
+        requiredPermission: missing
+      })
+      return
+    }
+
+    // A key is limited to its scopes on top of its owner's permissions
+    if (req.apiKey) {
+      const outOfScope = permissions.find(permission => !scopesGrantPermission(req.apiKey!.scopes, permission))
+      if (outOfScope) {
+        res.status(403).json({
+          success: false,
+          error: `API key scopes do not grant permission: ${outOfScope}`,
+          requiredPermission: outOfScope
+        })
+        return
+      }
+    }
+
+    // Profile access stays open so the user can enroll
+    const profileOnly = permissions.every(permission => PROFILE_PERMISSIONS.includes(permission))
+    if (!profileOnly && (await rejectWithoutTwoFactor(req, res))) return
+
     next()
     return
   }
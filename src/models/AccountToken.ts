@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export const ACCOUNT_TOKEN_PURPOSES = ['password_reset', 'email_verification'] as const
+
+export type AccountTokenPurpose = typeof ACCOUNT_TOKEN_PURPOSES[number]
+
+// Server-side record of an emailed token, so each one can be used only once
+export interface IAccountToken extends Document {
+  jti: string
+  userId: mongoose.Types.ObjectId
+  purpose: AccountTokenPurpose
+  expiresAt: Date
+  usedAt?: Date
+  invalidatedAt?: Date
+  createdAt: Date
+}
+
+const AccountTokenSchema = new Schema<IAccountToken>({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  purpose: {
+    type: String,
+    required: true,
+    enum: ACCOUNT_TOKEN_PURPOSES
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date
+  },
+  invalidatedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+// Indexes
+AccountTokenSchema.index({ userId: 1, purpose: 1 })
+// Expired tokens are purged by MongoDB
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export const AccountToken = mongoose.model<IAccountToken>('AccountToken', AccountTokenSchema)
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/permissions'
+
+export const API_KEY_OWNER_TYPES = ['user', 'organization'] as const
+
+export type ApiKeyOwnerType = typeof API_KEY_OWNER_TYPES[number]
+
+// A long-lived credential for integrations. Requests made with it act as `userId`,
+// limited to `scopes`; organization keys are managed by any organization admin.
+export interface IApiKey extends Document {
+  name: string
+  ownerType: ApiKeyOwnerType
+  userId: mongoose.Types.ObjectId
+  organizationId: mongoose.Types.ObjectId
+  // Public lookup part of the key, also shown in listings to tell keys apart
+  prefix: string
+  // SHA-256 of the secret part; the raw key is only returned when it is created
+  keyHash: string
+  scopes: ApiKeyScope[]
+  expiresAt?: Date
+  lastUsedAt?: Date
+  lastUsedIp?: string
+  revokedAt?: Date
+  revokedBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  ownerType: {
+    type: String,
+    enum: API_KEY_OWNER_TYPES,
+    default: 'user'
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization ID is required']
+  },
+  prefix: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  scopes: {
+    type: [{ type: String, enum: API_KEY_SCOPES }],
+    validate: {
+      validator: (scopes: string[]) => scopes.length > 0,
+      message: 'At least one scope is required'
+    }
+  },
+  expiresAt: {
+    type: Date
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  lastUsedIp: {
+    type: String
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+})
+
+// Indexes
+ApiKeySchema.index({ userId: 1, createdAt: -1 })
+ApiKeySchema.index({ organizationId: 1, ownerType: 1, createdAt: -1 })
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema)
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export const AUDIT_ACTIONS = [
+  'user.role_changed',
+  'user.activated',
+  'user.deactivated',
+  'user.sessions_revoked',
+  'user.two_factor_reset',
+  'user.locked',
+  'user.unlocked',
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+export interface IAuditLog extends Document {
+  action: AuditAction
+  // Missing for changes the system makes on its own
+  actorId?: mongoose.Types.ObjectId
+  targetType: 'User'
+  targetId: mongoose.Types.ObjectId
+  changes?: Record<string, { from: any; to: any }>
+  reason?: string
+  ip?: string
+  createdAt: Date
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+  action: {
+    type: String,
+    required: [true, 'Audit action is required'],
+    enum: AUDIT_ACTIONS
+  },
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  targetType: {
+    type: String,
+    required: true,
+    enum: ['User']
+  },
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    refPath: 'targetType'
+  },
+  changes: {
+    type: Schema.Types.Mixed
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  ip: {
+    type: String
+  }
+}, {
+  // Audit entries are append-only
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+// Indexes
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 })
+AuditLogSchema.index({ actorId: 1, createdAt: -1 })
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', AuditLogSchema)
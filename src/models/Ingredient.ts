@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export const HAZARD_FLAGS = [
+  'carcinogen',
+  'endocrine-disruptor',
+  'irritant',
+  'sensitizer',
+  'toxic',
+  'environmental',
+  'microplastic',
+  'restricted',
+] as const
+
+// The 14 EU-regulated food allergens, plus fragrance allergens for cosmetics
+export const ALLERGEN_FLAGS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soy',
+  'milk',
+  'tree-nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+  'fragrance-allergen',
+] as const
+
+export type HazardFlag = typeof HAZARD_FLAGS[number]
+export type AllergenFlag = typeof ALLERGEN_FLAGS[number]
+
+/**
+ * Lookup form of an ingredient name: case, spacing and trailing punctuation are
+ * ignored, and E-numbers are compacted ("E 330", "e-330" → "e330").
+ */
+export const normalizeIngredientName = (value: string): string => {
+  const text = value.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim().replace(/[.,;:]+$/, '')
+  const eNumber = text.match(/^e\s*-?\s*(\d{3,4}[a-z]?)$/)
+  return eNumber ? `e${eNumber[1]}` : text
+}
+
+export interface IIngredient extends Document {
+  canonicalName: string
+  synonyms: string[]
+  inciName?: string
+  eNumbers: string[]
+  function?: string
+  hazardFlags: HazardFlag[]
+  allergenFlags: AllergenFlag[]
+  description?: string
+  // Normalized forms of every name above, maintained on validate
+  lookupKeys: string[]
+  createdBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const IngredientSchema = new Schema<IIngredient>({
+  canonicalName: {
+    type: String,
+    required: [true, 'Canonical name is required'],
+    trim: true,
+    maxlength: [100, 'Canonical name cannot exceed 100 characters']
+  },
+  synonyms: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Synonyms cannot exceed 100 characters']
+  }],
+  inciName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'INCI name cannot exceed 100 characters']
+  },
+  eNumbers: [{
+    type: String,
+    trim: true,
+    uppercase: true,
+    match: [/^E\d{3,4}[A-Z]?$/, 'E-numbers look like E330 or E160A']
+  }],
+  function: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Function cannot exceed 100 characters']
+  },
+  hazardFlags: [{
+    type: String,
+    enum: HAZARD_FLAGS
+  }],
+  allergenFlags: [{
+    type: String,
+    enum: ALLERGEN_FLAGS
+  }],
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  lookupKeys: [{
+    type: String
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+})
+
+// Indexes
+// Unique across documents, so a name or synonym can only ever resolve to one ingredient
+IngredientSchema.index({ lookupKeys: 1 }, { unique: true })
+IngredientSchema.index({ hazardFlags: 1 })
+IngredientSchema.index({ allergenFlags: 1 })
+
+IngredientSchema.pre('validate', function(next) {
+  const names = [this.canonicalName, this.inciName, ...(this.synonyms || []), ...(this.eNumbers || [])]
+  this.lookupKeys = Array.from(new Set(names.filter((name): name is string => !!name).map(normalizeIngredientName).filter(Boolean)))
+  next()
+})
+
+export const Ingredient = mongoose.model<IIngredient>('Ingredient', IngredientSchema)
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { ORGANIZATION_ROLES } from '../config/permissions'
+
+// Ownership is never handed out through an invitation
+export const INVITATION_ROLES = ORGANIZATION_ROLES.filter(
+  (role): role is Exclude<typeof role, 'owner'> => role !== 'owner'
+)
+
+export type InvitationRole = typeof INVITATION_ROLES[number]
+
+export interface IInvitation extends Document {
+  organizationId: mongoose.Types.ObjectId
+  email: string
+  role: InvitationRole
+  // Only a SHA-256 hash is stored; the raw token exists solely in the emailed link
+  tokenHash: string
+  expiresAt: Date
+  invitedBy: mongoose.Types.ObjectId
+  acceptedAt?: Date
+  acceptedBy?: mongoose.Types.ObjectId
+  revokedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const InvitationSchema = new Schema<IInvitation>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization is required']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: INVITATION_ROLES,
+    default: 'editor'
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  acceptedAt: {
+    type: Date
+  },
+  acceptedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+})
+
+// Indexes
+InvitationSchema.index({ organizationId: 1, email: 1 })
+
+InvitationSchema.virtual('status').get(function() {
+  if (this.acceptedAt) return 'accepted'
+  if (this.revokedAt) return 'revoked'
+  if (this.expiresAt.getTime() <= Date.now()) return 'expired'
+  return 'pending'
+})
+
+export const Invitation = mongoose.model<IInvitation>('Invitation', InvitationSchema)
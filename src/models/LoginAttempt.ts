@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export const LOGIN_ATTEMPT_SCOPES = ['email', 'ip'] as const
+
+export type LoginAttemptScope = typeof LOGIN_ATTEMPT_SCOPES[number]
+
+// Failed-login counter for one email address or one client IP
+export interface ILoginAttempt extends Document {
+  scope: LoginAttemptScope
+  key: string
+  failures: number
+  lastFailedAt: Date
+  blockedUntil?: Date
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  scope: {
+    type: String,
+    required: true,
+    enum: LOGIN_ATTEMPT_SCOPES
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lastFailedAt: {
+    type: Date,
+    required: true
+  },
+  blockedUntil: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+})
+
+// Indexes
+LoginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true })
+// Counters reset once a client has stopped failing for a full window
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema)
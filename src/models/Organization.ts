@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface IOrganization extends Document {
+  name: string
+  slug: string
+  createdBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const OrganizationSchema = new Schema<IOrganization>({
+  name: {
+    type: String,
+    required: [true, 'Organization name is required'],
+    trim: true,
+    maxlength: [200, 'Organization name cannot exceed 200 characters']
+  },
+  slug: {
+    type: String,
+    required: [true, 'Organization slug is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+})
+
+// Indexes
+// Note: `unique: true` on `slug` already creates its index.
+OrganizationSchema.index({ name: 1 })
+
+// Members are the users whose `organizationId` points here; their role lives on the user
+OrganizationSchema.virtual('members', {
+  ref: 'User',
+  localField: '_id',
+  foreignField: 'organizationId'
+})
+
+export const Organization = mongoose.model<IOrganization>('Organization', OrganizationSchema)
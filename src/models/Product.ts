@@ -1,14 +1,41 @@
 import mongoose, { Document, Schema } from 'mongoose'
 
+export const PRODUCT_CATEGORIES = [
+  'Skincare',
+  'Food & Beverage',
+  'Personal Care',
+  'Cleaning Products',
+  'Clothing',
+  'Electronics',
+  'Other'
+] as const
+
+export type ProductCategory = typeof PRODUCT_CATEGORIES[number]
+
+// Snapshot of the knowledge-base entry an ingredient resolved to, refreshed when the entry changes
+export interface IResolvedIngredient {
+  input: string
+  ingredientId: mongoose.Types.ObjectId
+  canonicalName: string
+  function?: string
+  hazardFlags: string[]
+  allergenFlags: string[]
+}
+
 export interface IProduct extends Document {
   name: string
-  category: string
+  category: ProductCategory
   brand: string
   ingredients: string[]
+  resolvedIngredients?: IResolvedIngredient[]
+  // Entries of `ingredients` with no match in the ingredient knowledge base
+  unresolvedIngredients?: string[]
   description?: string
   certifications?: string[]
   packaging?: string
   sustainability?: string
+  organizationId: mongoose.Types.ObjectId
+  createdBy?: mongoose.Types.ObjectId
   createdAt: Date
   updatedAt: Date
 }
@@ -23,15 +50,7 @@ const ProductSchema = new Schema<IProduct>({
   category: {
     type: String,
     required: [true, 'Product category is required'],
-    enum: [
-      'Skincare',
-      'Food & Beverage',
-      'Personal Care',
-      'Cleaning Products',
-      'Clothing',
-      'Electronics',
-      'Other'
-    ]
+    enum: PRODUCT_CATEGORIES
   },
   brand: {
     type: String,
@@ -43,6 +62,18 @@ const ProductSchema = new Schema<IProduct>({
     type: String,
     trim: true
   }],
+  resolvedIngredients: [new Schema<IResolvedIngredient>({
+    input: { type: String, required: true },
+    ingredientId: { type: Schema.Types.ObjectId, ref: 'Ingredient', required: true },
+    canonicalName: { type: String, required: true },
+    function: { type: String },
+    hazardFlags: [{ type: String }],
+    allergenFlags: [{ type: String }]
+  }, { _id: false })],
+  unresolvedIngredients: [{
+    type: String,
+    trim: true
+  }],
   description: {
     type: String,
     trim: true,
@@ -61,6 +92,15 @@ const ProductSchema = new Schema<IProduct>({
     type: String,
     trim: true,
     maxlength: [500, 'Sustainability description cannot exceed 500 characters']
+  },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization is required']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
   }
 }, {
   timestamps: true,
@@ -73,6 +113,8 @@ ProductSchema.index({ name: 'text', brand: 'text', description: 'text' })
 ProductSchema.index({ category: 1 })
 ProductSchema.index({ brand: 1 })
 ProductSchema.index({ createdAt: -1 })
+ProductSchema.index({ organizationId: 1, createdAt: -1 })
+ProductSchema.index({ 'resolvedIngredients.ingredientId': 1 })
 
 // Virtual for ingredient count
 ProductSchema.virtual('ingredientCount').get(function() {
@@ -1,18 +1,25 @@
 import mongoose, { Document, Schema } from 'mongoose'
+import { ScoreBreakdown } from '../services/scoring'
 
 export interface IReport extends Document {
   productId: mongoose.Types.ObjectId
   userId?: mongoose.Types.ObjectId
+  organizationId?: mongoose.Types.ObjectId
   summary: string
   transparencyScore: number
+  scoreBreakdown?: ScoreBreakdown
   analysis: {
     strengths: string[]
     improvements: string[]
     recommendations: string[]
   }
   answers: Record<string, any>
+  analysisSource: 'ai' | 'fallback'
+  fallbackReason?: string
   pdfUrl?: string
-  status: 'draft' | 'pending' | 'completed'
+  status: 'draft' | 'pending' | 'completed' | 'failed'
+  approvedBy?: mongoose.Types.ObjectId
+  approvedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
@@ -29,18 +36,46 @@ const ReportSchema = new Schema<IReport>({
     required: [true, 'User ID is required'],
     index: true
   },
+  // Copied from the product so tenant queries don't need a join
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
   summary: {
     type: String,
-    required: [true, 'Report summary is required'],
+    // Pending reports are created before the analysis has produced a summary or score
+    required: [function(this: IReport) { return this.status === 'completed' }, 'Report summary is required'],
     trim: true,
     maxlength: [2000, 'Summary cannot exceed 2000 characters']
   },
   transparencyScore: {
     type: Number,
-    required: [true, 'Transparency score is required'],
+    required: [function(this: IReport) { return this.status === 'completed' }, 'Transparency score is required'],
     min: [0, 'Score cannot be negative'],
     max: [100, 'Score cannot exceed 100']
   },
+  // Components behind transparencyScore, kept so the score can be explained
+  scoreBreakdown: {
+    type: new Schema({
+      base: { type: Number, required: true },
+      baseSource: { type: String, enum: ['ai', 'fallback'], required: true },
+      answeredCount: { type: Number, required: true },
+      questionCount: { type: Number, required: true },
+      completenessRatio: { type: Number, required: true },
+      category: { type: String, trim: true },
+      categoryBonus: { type: Number, required: true },
+      penalty: { type: Number, required: true },
+      weights: {
+        ai: { type: Number, required: true },
+        completeness: { type: Number, required: true }
+      },
+      completenessThreshold: { type: Number, required: true },
+      // Version of the ScoringRubric used; 0 means the built-in defaults
+      rubricVersion: { type: Number, default: 0 },
+      total: { type: Number, required: true }
+    }, { _id: false })
+  },
   analysis: {
     strengths: [{
       type: String,
@@ -59,6 +94,16 @@ const ReportSchema = new Schema<IReport>({
     type: Schema.Types.Mixed,
     default: {}
   },
+  analysisSource: {
+    type: String,
+    enum: ['ai', 'fallback'],
+    default: 'ai'
+  },
+  fallbackReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Fallback reason cannot exceed 500 characters']
+  },
   pdfUrl: {
     type: String,
     trim: true
@@ -66,8 +111,16 @@ const ReportSchema = new Schema<IReport>({
   status: {
     type: String,
     required: [true, 'Report status is required'],
-    enum: ['draft', 'pending', 'completed'],
+    enum: ['draft', 'pending', 'completed', 'failed'],
     default: 'draft'
+  },
+  // Set by a reviewer once a completed report has been checked; cleared when it changes
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedAt: {
+    type: Date
   }
 }, {
   timestamps: true,
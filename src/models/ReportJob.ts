@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface IReportJob extends Document {
+  reportId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lockedAt?: Date
+  // Token of the claim holding the lock; every update from the running worker is conditional on it
+  lockedBy?: string
+  startedAt?: Date
+  completedAt?: Date
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReportJobSchema = new Schema<IReportJob>({
+  reportId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report',
+    required: [true, 'Report ID is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  status: {
+    type: String,
+    required: [true, 'Job status is required'],
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Attempts cannot be negative']
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3,
+    min: [1, 'Max attempts must be at least 1']
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date
+  },
+  lockedBy: {
+    type: String
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Error message cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+})
+
+// Indexes
+ReportJobSchema.index({ status: 1, runAt: 1 })
+ReportJobSchema.index({ reportId: 1, createdAt: -1 })
+
+export const ReportJob = mongoose.model<IReportJob>('ReportJob', ReportJobSchema)
@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { PRODUCT_CATEGORIES } from './Product'
+
+export interface IScoreDiff {
+  reportId: mongoose.Types.ObjectId
+  before: number
+  after: number
+  rubricVersionBefore?: number
+  rubricVersionAfter: number
+}
+
+export interface IScoreRecomputeRun extends Document {
+  filter: {
+    category?: string
+    from?: Date
+    to?: Date
+    status?: string
+  }
+  dryRun: boolean
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  source: 'api' | 'cli'
+  total: number
+  processed: number
+  changed: number
+  failed: number
+  // Checkpoint: reports are processed in _id order, so a resumed run continues after this ID
+  lastProcessedId?: mongoose.Types.ObjectId
+  diffs: IScoreDiff[]
+  error?: string
+  startedBy?: mongoose.Types.ObjectId
+  startedAt?: Date
+  completedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ScoreRecomputeRunSchema = new Schema<IScoreRecomputeRun>({
+  filter: {
+    category: { type: String, enum: PRODUCT_CATEGORIES },
+    from: { type: Date },
+    to: { type: Date },
+    status: { type: String, enum: ['draft', 'pending', 'completed', 'failed'] }
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    required: [true, 'Run status is required'],
+    enum: ['pending', 'running', 'completed', 'failed'],
+    default: 'pending'
+  },
+  source: {
+    type: String,
+    enum: ['api', 'cli'],
+    default: 'api'
+  },
+  total: { type: Number, default: 0 },
+  processed: { type: Number, default: 0 },
+  changed: { type: Number, default: 0 },
+  failed: { type: Number, default: 0 },
+  lastProcessedId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report'
+  },
+  diffs: [{
+    _id: false,
+    reportId: { type: Schema.Types.ObjectId, ref: 'Report', required: true },
+    before: { type: Number, required: true },
+    after: { type: Number, required: true },
+    rubricVersionBefore: { type: Number },
+    rubricVersionAfter: { type: Number, required: true }
+  }],
+  error: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Error message cannot exceed 1000 characters']
+  },
+  startedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+})
+
+// Indexes
+ScoreRecomputeRunSchema.index({ createdAt: -1 })
+
+// Virtual for progress percentage
+ScoreRecomputeRunSchema.virtual('progress').get(function() {
+  return this.total > 0 ? Math.round((this.processed / this.total) * 100) : (this.status === 'completed' ? 100 : 0)
+})
+
+export const ScoreRecomputeRun = mongoose.model<IScoreRecomputeRun>('ScoreRecomputeRun', ScoreRecomputeRunSchema)
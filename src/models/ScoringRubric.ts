@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { PRODUCT_CATEGORIES, ProductCategory } from './Product'
+
+export interface IScoringRubric extends Document {
+  category: ProductCategory
+  version: number
+  weights: {
+    ai: number
+    completeness: number
+  }
+  completenessThreshold: number
+  categoryBonus: number
+  maxIncompletenessPenalty: number
+  isActive: boolean
+  notes?: string
+  createdBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ScoringRubricSchema = new Schema<IScoringRubric>({
+  category: {
+    type: String,
+    required: [true, 'Rubric category is required'],
+    enum: PRODUCT_CATEGORIES
+  },
+  version: {
+    type: Number,
+    required: [true, 'Rubric version is required'],
+    min: [1, 'Rubric version must be at least 1']
+  },
+  weights: {
+    ai: {
+      type: Number,
+      required: [true, 'AI weight is required'],
+      min: [0, 'AI weight cannot be negative'],
+      max: [1, 'AI weight cannot exceed 1']
+    },
+    completeness: {
+      type: Number,
+      required: [true, 'Completeness weight is required'],
+      min: [0, 'Completeness weight cannot be negative'],
+      max: [1, 'Completeness weight cannot exceed 1']
+    }
+  },
+  completenessThreshold: {
+    type: Number,
+    required: [true, 'Completeness threshold is required'],
+    min: [0, 'Completeness threshold cannot be negative'],
+    max: [1, 'Completeness threshold cannot exceed 1']
+  },
+  categoryBonus: {
+    type: Number,
+    required: [true, 'Category bonus is required'],
+    min: [0, 'Category bonus cannot be negative'],
+    max: [20, 'Category bonus cannot exceed 20']
+  },
+  maxIncompletenessPenalty: {
+    type: Number,
+    required: [true, 'Maximum incompleteness penalty is required'],
+    min: [0, 'Penalty cannot be negative'],
+    max: [20, 'Penalty cannot exceed 20']
+  },
+  isActive: {
+    type: Boolean,
+    default: false
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+})
+
+// Indexes
+ScoringRubricSchema.index({ category: 1, version: -1 }, { unique: true })
+ScoringRubricSchema.index({ category: 1, isActive: 1 })
+// At most one active version per category, even when two activations race
+ScoringRubricSchema.index({ category: 1 }, { unique: true, partialFilterExpression: { isActive: true } })
+
+// Pre-validate middleware to keep the weighted sum on the 0-100 scale
+ScoringRubricSchema.pre('validate', function(next) {
+  const sum = (this.weights?.ai ?? 0) + (this.weights?.completeness ?? 0)
+  if (Math.abs(sum - 1) > 0.001) {
+    this.invalidate('weights', 'AI and completeness weights must add up to 1')
+  }
+  next()
+})
+
+export const ScoringRubric = mongoose.model<IScoringRubric>('ScoringRubric', ScoringRubricSchema)
@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { USER_ROLES } from './User'
+import { ORGANIZATION_ROLES } from '../config/permissions'
+
+// Platform roles and organization roles can both be targeted
+export const TWO_FACTOR_ROLE_OPTIONS = [...USER_ROLES, ...ORGANIZATION_ROLES] as const
+
+export interface ISecuritySettings extends Document {
+  key: 'global'
+  twoFactorRequiredRoles: string[]
+  updatedBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A single platform-wide document, keyed 'global'
+const SecuritySettingsSchema = new Schema<ISecuritySettings>({
+  key: {
+    type: String,
+    enum: ['global'],
+    default: 'global',
+    unique: true
+  },
+  twoFactorRequiredRoles: [{
+    type: String,
+    enum: TWO_FACTOR_ROLE_OPTIONS
+  }],
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+})
+
+export const SecuritySettings = mongoose.model<ISecuritySettings>('SecuritySettings', SecuritySettingsSchema)
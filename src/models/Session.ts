@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId
+  // SHA-256 of the current refresh token secret; the raw secret is only ever sent to the client
+  refreshTokenHash: string
+  // Hash of the token this one replaced, kept to detect replay of a rotated token
+  previousRefreshTokenHash?: string
+  expiresAt: Date
+  userAgent?: string
+  ip?: string
+  lastUsedAt: Date
+  rotatedAt?: Date
+  revokedAt?: Date
+  revokedReason?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    select: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  ip: {
+    type: String,
+    trim: true
+  },
+  // Updated on refresh and (throttled) on authenticated requests
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  rotatedAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+})
+
+// Indexes
+SessionSchema.index({ userId: 1, revokedAt: 1 })
+// Expired sessions are purged by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema)
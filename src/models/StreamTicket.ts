@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/permissions'
+
+// Single-use credential for opening one report's event stream, since EventSource cannot send headers
+export interface IStreamTicket extends Document {
+  // SHA-256 of the ticket; the raw value is only ever sent to the client
+  ticketHash: string
+  userId: mongoose.Types.ObjectId
+  reportId: mongoose.Types.ObjectId
+  // Set when requested with an API key; the stream is then limited to the key's scopes
+  apiKeyId?: mongoose.Types.ObjectId
+  scopes?: ApiKeyScope[]
+  expiresAt: Date
+  usedAt?: Date
+  createdAt: Date
+}
+
+const StreamTicketSchema = new Schema<IStreamTicket>({
+  ticketHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  reportId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report',
+    required: [true, 'Report ID is required']
+  },
+  apiKeyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ApiKey'
+  },
+  scopes: {
+    type: [{ type: String, enum: API_KEY_SCOPES }],
+    default: undefined
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+// Expired tickets are purged by MongoDB
+StreamTicketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export const StreamTicket = mongoose.model<IStreamTicket>('StreamTicket', StreamTicketSchema)
@@ -1,14 +1,31 @@
 import mongoose, { Document, Schema } from 'mongoose'
 import bcrypt from 'bcryptjs'
+import { ORGANIZATION_ROLES, OrganizationRole } from '../config/permissions'
+
+export const USER_ROLES = ['admin', 'user'] as const
 
 export interface IUser extends Document {
   name: string
   email: string
   password: string
   company?: string
-  role: 'admin' | 'user'
+  organizationId?: mongoose.Types.ObjectId
+  organizationRole?: OrganizationRole
+  role: typeof USER_ROLES[number]
   isActive: boolean
   lastLogin?: Date
+  sessionsInvalidatedAt?: Date
+  emailVerified: boolean
+  emailVerifiedAt?: Date
+  passwordChangedAt?: Date
+  twoFactorEnabled: boolean
+  twoFactorSecret?: string
+  twoFactorPendingSecret?: string
+  twoFactorBackupCodes?: string[]
+  twoFactorLastStep?: number
+  twoFactorEnabledAt?: Date
+  failedLoginAttempts: number
+  lockUntil?: Date
   createdAt: Date
   updatedAt: Date
   comparePassword(candidatePassword: string): Promise<boolean>
@@ -40,10 +57,19 @@ const UserSchema = new Schema<IUser>({
     trim: true,
     maxlength: [200, 'Company name cannot exceed 200 characters']
   },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+  // Role within the organization, separate from the platform-wide `role`
+  organizationRole: {
+    type: String,
+    enum: ORGANIZATION_ROLES
+  },
   role: {
     type: String,
     required: [true, 'User role is required'],
-    enum: ['admin', 'user'],
+    enum: USER_ROLES,
     default: 'user'
   },
   isActive: {
@@ -52,6 +78,54 @@ const UserSchema = new Schema<IUser>({
   },
   lastLogin: {
     type: Date
+  },
+  // Tokens issued before this moment are rejected (forced logout)
+  sessionsInvalidatedAt: {
+    type: Date
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date
+  },
+  passwordChangedAt: {
+    type: Date
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  // AES-GCM encrypted TOTP secrets; the pending one awaits confirmation with a first code
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  // SHA-256 hashes of unused backup codes
+  twoFactorBackupCodes: {
+    type: [String],
+    select: false
+  },
+  // Last accepted TOTP time step, so a code can't be replayed
+  twoFactorLastStep: {
+    type: Number,
+    select: false
+  },
+  twoFactorEnabledAt: {
+    type: Date
+  },
+  // Consecutive failed logins; reset on success and when the account is locked
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -64,6 +138,7 @@ const UserSchema = new Schema<IUser>({
 // Avoid declaring the same index twice to prevent Mongoose duplicate-index warnings.
 UserSchema.index({ company: 1 })
 UserSchema.index({ role: 1 })
+UserSchema.index({ organizationId: 1 })
 
 // Virtual for user's full profile
 UserSchema.virtual('profile').get(function() {
@@ -71,7 +146,11 @@ UserSchema.virtual('profile').get(function() {
     id: this._id,
     name: this.name,
     email: this.email,
+    emailVerified: this.emailVerified,
+    twoFactorEnabled: this.twoFactorEnabled,
     company: this.company,
+    organizationId: this.organizationId,
+    organizationRole: this.organizationRole,
     role: this.role,
     isActive: this.isActive,
     lastLogin: this.lastLogin,
@@ -86,6 +165,7 @@ UserSchema.pre('save', async function(next) {
   try {
     const salt = await bcrypt.genSalt(12)
     this.password = await bcrypt.hash(this.password, salt)
+    if (!this.isNew) this.passwordChangedAt = new Date()
     next()
   } catch (error) {
     next(error as Error)
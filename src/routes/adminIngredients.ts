@@ -0,0 +1,221 @@
+import express, { Request, Response } from 'express'
+import mongoose from 'mongoose'
+import { body, param, query, validationResult } from 'express-validator'
+import { Ingredient, ALLERGEN_FLAGS, HAZARD_FLAGS } from '../models/Ingredient'
+import { protect, authorize } from '../middleware/auth'
+import { refreshProductsForIngredient } from '../services/ingredientResolver'
+import { escapeRegex } from '../utils/regex'
+
+const router = express.Router()
+
+// Every ingredient knowledge-base route is admin-only
+router.use(protect, authorize('admin'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+// lookupKeys is unique, so a clash means another ingredient already uses one of the names
+const sendDuplicateName = (error: any, res: Response) => {
+  if (error?.code !== 11000) return false
+  res.status(409).json({ success: false, error: 'A name, synonym, INCI name or E-number is already used by another ingredient' })
+  return true
+}
+
+// Relinking can touch much of the catalogue, so it runs after the response is sent
+const relinkInBackground = (ingredientId: mongoose.Types.ObjectId, lookupKeys: string[]) => {
+  refreshProductsForIngredient(ingredientId, lookupKeys)
+    .then(count => {
+      if (count > 0) console.log(`🔗 Relinked ${count} product(s) to ingredient ${ingredientId}`)
+    })
+    .catch(error => {
+      console.error(`❌ Relinking products for ingredient ${ingredientId} failed:`, (error as Error).message)
+    })
+}
+
+const EDITABLE_FIELDS = ['canonicalName', 'synonyms', 'inciName', 'eNumbers', 'function', 'hazardFlags', 'allergenFlags', 'description'] as const
+
+const idParam = param('id').isMongoId().withMessage('Invalid ingredient ID')
+
+const ingredientRules = (optional: boolean) => {
+  const canonicalName = body('canonicalName')
+  return [
+    (optional ? canonicalName.optional() : canonicalName)
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Canonical name must be between 1 and 100 characters'),
+    body('synonyms').optional().isArray({ max: 50 }).withMessage('Synonyms must be an array of at most 50 names'),
+    body('synonyms.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each synonym must be between 1 and 100 characters'),
+    body('inciName').optional().trim().isLength({ max: 100 }).withMessage('INCI name cannot exceed 100 characters'),
+    body('eNumbers').optional().isArray({ max: 10 }).withMessage('E-numbers must be an array of at most 10 values'),
+    body('eNumbers.*')
+      .isString()
+      .trim()
+      .toUpperCase()
+      .matches(/^E\d{3,4}[A-Z]?$/)
+      .withMessage('E-numbers look like E330 or E160A'),
+    body('function').optional().trim().isLength({ max: 100 }).withMessage('Function cannot exceed 100 characters'),
+    body('hazardFlags').optional().isArray().withMessage('Hazard flags must be an array'),
+    body('hazardFlags.*').isIn(HAZARD_FLAGS).withMessage(`Hazard flags must be one of: ${HAZARD_FLAGS.join(', ')}`),
+    body('allergenFlags').optional().isArray().withMessage('Allergen flags must be an array'),
+    body('allergenFlags.*').isIn(ALLERGEN_FLAGS).withMessage(`Allergen flags must be one of: ${ALLERGEN_FLAGS.join(', ')}`),
+    body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  ]
+}
+
+const pickEditable = (source: Record<string, any>) => {
+  const fields: Record<string, any> = {}
+  for (const field of EDITABLE_FIELDS) {
+    if (source[field] !== undefined) fields[field] = source[field]
+  }
+  return fields
+}
+
+// @desc    List ingredients
+// @route   GET /api/admin/ingredients
+// @access  Private/Admin
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term cannot exceed 100 characters'),
+    query('hazardFlag').optional().isIn(HAZARD_FLAGS).withMessage('Invalid hazard flag'),
+    query('allergenFlag').optional().isIn(ALLERGEN_FLAGS).withMessage('Invalid allergen flag'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+      const search = req.query.search as string | undefined
+
+      const filter: Record<string, any> = {}
+      if (search) {
+        const pattern = escapeRegex(search)
+        filter.$or = ['canonicalName', 'synonyms', 'inciName', 'eNumbers'].map(field => ({
+          [field]: { $regex: pattern, $options: 'i' },
+        }))
+      }
+      if (req.query.hazardFlag) filter.hazardFlags = req.query.hazardFlag
+      if (req.query.allergenFlag) filter.allergenFlags = req.query.allergenFlag
+
+      const [ingredients, total] = await Promise.all([
+        Ingredient.find(filter).sort({ canonicalName: 1 }).skip((page - 1) * limit).limit(limit),
+        Ingredient.countDocuments(filter),
+      ])
+
+      res.json({
+        success: true,
+        count: ingredients.length,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        data: ingredients,
+      })
+    } catch (error) {
+      console.error('Get ingredients error:', error)
+      res.status(500).json({ success: false, error: 'Server error fetching ingredients' })
+    }
+  }
+)
+
+// @desc    Get an ingredient
+// @route   GET /api/admin/ingredients/:id
+// @access  Private/Admin
+router.get('/:id', [idParam], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const ingredient = await Ingredient.findById(req.params.id).populate('createdBy', 'name email')
+    if (!ingredient) {
+      res.status(404).json({ success: false, error: 'Ingredient not found' })
+      return
+    }
+
+    res.json({ success: true, data: ingredient })
+  } catch (error) {
+    console.error('Get ingredient error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching ingredient' })
+  }
+})
+
+// @desc    Create an ingredient and link products that list any of its names
+// @route   POST /api/admin/ingredients
+// @access  Private/Admin
+router.post('/', ingredientRules(false), async (req: any, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const ingredient = await Ingredient.create({ ...pickEditable(req.body), createdBy: req.user._id })
+    relinkInBackground(ingredient._id, ingredient.lookupKeys)
+
+    res.status(201).json({ success: true, data: ingredient })
+  } catch (error) {
+    if (sendDuplicateName(error, res)) return
+    console.error('Create ingredient error:', error)
+    res.status(500).json({ success: false, error: 'Server error creating ingredient' })
+  }
+})
+
+// @desc    Update an ingredient and re-resolve affected products
+// @route   PUT /api/admin/ingredients/:id
+// @access  Private/Admin
+router.put('/:id', [idParam, ...ingredientRules(true)], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const ingredient = await Ingredient.findById(req.params.id)
+    if (!ingredient) {
+      res.status(404).json({ success: false, error: 'Ingredient not found' })
+      return
+    }
+
+    // Products matching a removed name need re-resolving as well as those matching a new one
+    const previousKeys = [...ingredient.lookupKeys]
+    ingredient.set(pickEditable(req.body))
+    await ingredient.save()
+
+    relinkInBackground(ingredient._id, Array.from(new Set([...previousKeys, ...ingredient.lookupKeys])))
+
+    res.json({ success: true, data: ingredient })
+  } catch (error) {
+    if (sendDuplicateName(error, res)) return
+    console.error('Update ingredient error:', error)
+    res.status(500).json({ success: false, error: 'Server error updating ingredient' })
+  }
+})
+
+// @desc    Delete an ingredient; linked products fall back to unresolved
+// @route   DELETE /api/admin/ingredients/:id
+// @access  Private/Admin
+router.delete('/:id', [idParam], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const ingredient = await Ingredient.findByIdAndDelete(req.params.id)
+    if (!ingredient) {
+      res.status(404).json({ success: false, error: 'Ingredient not found' })
+      return
+    }
+
+    relinkInBackground(ingredient._id, ingredient.lookupKeys)
+
+    res.json({ success: true, message: 'Ingredient deleted successfully' })
+  } catch (error) {
+    console.error('Delete ingredient error:', error)
+    res.status(500).json({ success: false, error: 'Server error deleting ingredient' })
+  }
+})
+
+export { router as adminIngredientRoutes }
@@ -0,0 +1,265 @@
+import express, { Request, Response } from 'express'
+import { body, param, query, validationResult } from 'express-validator'
+import { Organization, IOrganization } from '../models/Organization'
+import { User } from '../models/User'
+import { ORGANIZATION_ROLES } from '../config/permissions'
+import { Product } from '../models/Product'
+import { Report } from '../models/Report'
+import { protect, authorize } from '../middleware/auth'
+import { createOrganization } from '../services/tenancy'
+import { escapeRegex } from '../utils/regex'
+
+const router = express.Router()
+
+// Every organization management route is admin-only
+router.use(protect, authorize('admin'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+const withCounts = async (organization: IOrganization) => {
+  const [memberCount, productCount, reportCount] = await Promise.all([
+    User.countDocuments({ organizationId: organization._id }),
+    Product.countDocuments({ organizationId: organization._id }),
+    Report.countDocuments({ organizationId: organization._id }),
+  ])
+  return { ...organization.toJSON(), memberCount, productCount, reportCount }
+}
+
+const idParam = param('id').isMongoId().withMessage('Invalid organization ID')
+
+// @desc    List organizations
+// @route   GET /api/admin/organizations
+// @access  Private/Admin
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term cannot exceed 100 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+      const search = req.query.search as string | undefined
+
+      const filter: Record<string, any> = {}
+      if (search) {
+        const pattern = escapeRegex(search)
+        filter.$or = [{ name: { $regex: pattern, $options: 'i' } }, { slug: { $regex: pattern, $options: 'i' } }]
+      }
+
+      const [organizations, total] = await Promise.all([
+        Organization.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        Organization.countDocuments(filter),
+      ])
+
+      res.json({
+        success: true,
+        count: organizations.length,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        data: await Promise.all(organizations.map(withCounts)),
+      })
+    } catch (error) {
+      console.error('Get organizations error:', error)
+      res.status(500).json({ success: false, error: 'Server error fetching organizations' })
+    }
+  }
+)
+
+// @desc    List products not yet assigned to any organization (created before tenancy)
+// @route   GET /api/admin/organizations/unassigned-products
+// @access  Private/Admin
+router.get(
+  '/unassigned-products',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+      const filter = { organizationId: { $exists: false } }
+
+      const [products, total] = await Promise.all([
+        Product.find(filter).select('name brand category createdAt').sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        Product.countDocuments(filter),
+      ])
+
+      res.json({
+        success: true,
+        count: products.length,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        data: products,
+      })
+    } catch (error) {
+      console.error('Get unassigned products error:', error)
+      res.status(500).json({ success: false, error: 'Server error fetching unassigned products' })
+    }
+  }
+)
+
+// @desc    Get an organization with its members
+// @route   GET /api/admin/organizations/:id
+// @access  Private/Admin
+router.get('/:id', [idParam], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const organization = await Organization.findById(req.params.id)
+    if (!organization) {
+      res.status(404).json({ success: false, error: 'Organization not found' })
+      return
+    }
+
+    const members = await User.find({ organizationId: organization._id }).select('name email role organizationRole isActive lastLogin')
+
+    res.json({ success: true, data: { ...(await withCounts(organization)), members } })
+  } catch (error) {
+    console.error('Get organization error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching organization' })
+  }
+})
+
+// @desc    Create an organization
+// @route   POST /api/admin/organizations
+// @access  Private/Admin
+router.post(
+  '/',
+  [body('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters')],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const organization = await createOrganization(req.body.name, req.user._id)
+
+      res.status(201).json({ success: true, data: organization })
+    } catch (error) {
+      console.error('Create organization error:', error)
+      res.status(500).json({ success: false, error: 'Server error creating organization' })
+    }
+  }
+)
+
+// @desc    Rename an organization
+// @route   PUT /api/admin/organizations/:id
+// @access  Private/Admin
+router.put(
+  '/:id',
+  [idParam, body('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters')],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const organization = await Organization.findByIdAndUpdate(
+        req.params.id,
+        { name: req.body.name },
+        { new: true, runValidators: true }
+      )
+      if (!organization) {
+        res.status(404).json({ success: false, error: 'Organization not found' })
+        return
+      }
+
+      res.json({ success: true, data: organization })
+    } catch (error) {
+      console.error('Update organization error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating organization' })
+    }
+  }
+)
+
+// @desc    Move a user into an organization with the given role (default editor)
+// @route   PUT /api/admin/organizations/:id/members/:userId
+// @access  Private/Admin
+router.put(
+  '/:id/members/:userId',
+  [
+    idParam,
+    param('userId').isMongoId().withMessage('Invalid user ID'),
+    body('role').optional().isIn(ORGANIZATION_ROLES).withMessage(`Role must be one of: ${ORGANIZATION_ROLES.join(', ')}`),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const organization = await Organization.findById(req.params.id)
+      if (!organization) {
+        res.status(404).json({ success: false, error: 'Organization not found' })
+        return
+      }
+
+      // The user's existing reports stay with the organization their products belong to
+      const user = await User.findByIdAndUpdate(
+        req.params.userId,
+        { organizationId: organization._id, organizationRole: req.body.role || 'editor' },
+        { new: true, runValidators: true }
+      )
+      if (!user) {
+        res.status(404).json({ success: false, error: 'User not found' })
+        return
+      }
+
+      res.json({ success: true, data: (user as any).profile })
+    } catch (error) {
+      console.error('Move organization member error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating organization membership' })
+    }
+  }
+)
+
+// @desc    Assign products to an organization, e.g. those the backfill could not place
+// @route   POST /api/admin/organizations/:id/products
+// @access  Private/Admin
+router.post(
+  '/:id/products',
+  [
+    idParam,
+    body('productIds').isArray({ min: 1, max: 500 }).withMessage('productIds must be an array of 1 to 500 product IDs'),
+    body('productIds.*').isMongoId().withMessage('Invalid product ID'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const organization = await Organization.findById(req.params.id)
+      if (!organization) {
+        res.status(404).json({ success: false, error: 'Organization not found' })
+        return
+      }
+
+      // Reports stay with their authors' organizations
+      const result = await Product.updateMany(
+        { _id: { $in: req.body.productIds } },
+        { $set: { organizationId: organization._id } }
+      )
+
+      res.json({ success: true, data: { matched: result.matchedCount, modified: result.modifiedCount } })
+    } catch (error) {
+      console.error('Assign organization products error:', error)
+      res.status(500).json({ success: false, error: 'Server error assigning products' })
+    }
+  }
+)
+
+export { router as adminOrganizationRoutes }
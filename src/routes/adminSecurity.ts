@@ -0,0 +1,58 @@
+import express, { Request, Response } from 'express'
+import { body, validationResult } from 'express-validator'
+import { TWO_FACTOR_ROLE_OPTIONS } from '../models/SecuritySettings'
+import { protect, authorize } from '../middleware/auth'
+import { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles } from '../services/twoFactor'
+
+const router = express.Router()
+
+router.use(protect, authorize('admin'))
+
+// @desc    Get the roles that must use two-factor authentication
+// @route   GET /api/admin/security/two-factor
+// @access  Private/Admin
+router.get('/two-factor', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        requiredRoles: await getTwoFactorRequiredRoles(),
+        availableRoles: TWO_FACTOR_ROLE_OPTIONS,
+      },
+    })
+  } catch (error) {
+    console.error('Get two-factor settings error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching security settings' })
+  }
+})
+
+// @desc    Set the roles that must use two-factor authentication
+// @route   PUT /api/admin/security/two-factor
+// @access  Private/Admin
+router.put(
+  '/two-factor',
+  [
+    body('requiredRoles').isArray().withMessage('requiredRoles must be an array'),
+    body('requiredRoles.*').isIn(TWO_FACTOR_ROLE_OPTIONS).withMessage('Invalid role'),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, error: 'Validation failed', details: errors.array() })
+      return
+    }
+
+    try {
+      const settings = await setTwoFactorRequiredRoles(req.body.requiredRoles, req.user._id)
+      res.json({
+        success: true,
+        data: { requiredRoles: settings.twoFactorRequiredRoles },
+      })
+    } catch (error) {
+      console.error('Update two-factor settings error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating security settings' })
+    }
+  }
+)
+
+export { router as adminSecurityRoutes }
@@ -0,0 +1,340 @@
+import express, { Request, Response } from 'express'
+import { body, param, query, validationResult } from 'express-validator'
+import { User, USER_ROLES } from '../models/User'
+import { AuditLog } from '../models/AuditLog'
+import { protect, authorize } from '../middleware/auth'
+import { recordUserAudit } from '../services/audit'
+import { revokeAllSessions } from '../services/tokens'
+import { getLockRetryAfter, unlockUser } from '../services/loginProtection'
+import { getClientIp } from '../utils/request'
+import { escapeRegex } from '../utils/regex'
+
+const router = express.Router()
+
+// Every user management route is admin-only
+router.use(protect, authorize('admin'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+const idParam = param('id').isMongoId().withMessage('Invalid user ID')
+const reasonRule = body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+
+// Admins cannot lock themselves out by demoting or deactivating their own account
+const rejectSelf = (req: any, res: Response, action: string) => {
+  if (req.user._id.equals(req.params.id)) {
+    res.status(400).json({ success: false, error: `You cannot ${action} your own account` })
+    return true
+  }
+  return false
+}
+
+// @desc    Search users
+// @route   GET /api/admin/users
+// @access  Private/Admin
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term cannot exceed 100 characters'),
+    query('role').optional().isIn(USER_ROLES).withMessage('Invalid role'),
+    query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+    query('organizationId').optional().isMongoId().withMessage('Invalid organization ID'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+      const { search, role, isActive, organizationId } = req.query
+
+      const filter: Record<string, any> = {}
+      if (search) {
+        const pattern = escapeRegex(search as string)
+        filter.$or = ['name', 'email', 'company'].map(field => ({ [field]: { $regex: pattern, $options: 'i' } }))
+      }
+      if (role) filter.role = role
+      if (isActive !== undefined) filter.isActive = isActive === 'true'
+      if (organizationId) filter.organizationId = organizationId
+
+      const [users, total] = await Promise.all([
+        User.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        User.countDocuments(filter),
+      ])
+
+      res.json({
+        success: true,
+        count: users.length,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        data: users.map(user => (user as any).profile),
+      })
+    } catch (error) {
+      console.error('Get users error:', error)
+      res.status(500).json({ success: false, error: 'Server error fetching users' })
+    }
+  }
+)
+
+// @desc    Get a user
+// @route   GET /api/admin/users/:id
+// @access  Private/Admin
+router.get('/:id', [idParam], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const user = await User.findById(req.params.id).populate('organizationId', 'name slug')
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' })
+      return
+    }
+
+    res.json({
+      success: true,
+      data: { ...(user as any).profile, sessionsInvalidatedAt: user.sessionsInvalidatedAt },
+    })
+  } catch (error) {
+    console.error('Get user error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching user' })
+  }
+})
+
+// @desc    Change a user's platform role
+// @route   PUT /api/admin/users/:id/role
+// @access  Private/Admin
+router.put(
+  '/:id/role',
+  [idParam, body('role').isIn(USER_ROLES).withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`), reasonRule],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+    if (rejectSelf(req, res, 'change the role of')) return
+
+    try {
+      const user = await User.findById(req.params.id)
+      if (!user) {
+        res.status(404).json({ success: false, error: 'User not found' })
+        return
+      }
+
+      const previousRole = user.role
+      if (previousRole !== req.body.role) {
+        user.role = req.body.role
+        await user.save()
+        await recordUserAudit({
+          action: 'user.role_changed',
+          actorId: req.user._id,
+          targetId: user._id,
+          changes: { role: { from: previousRole, to: user.role } },
+          reason: req.body.reason,
+          ip: getClientIp(req),
+        })
+      }
+
+      res.json({ success: true, data: (user as any).profile })
+    } catch (error) {
+      console.error('Update user role error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating user role' })
+    }
+  }
+)
+
+// @desc    Activate or deactivate a user
+// @route   PUT /api/admin/users/:id/status
+// @access  Private/Admin
+router.put(
+  '/:id/status',
+  [idParam, body('isActive').isBoolean().withMessage('isActive must be a boolean'), reasonRule],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+    if (rejectSelf(req, res, 'change the status of')) return
+
+    try {
+      const user = await User.findById(req.params.id)
+      if (!user) {
+        res.status(404).json({ success: false, error: 'User not found' })
+        return
+      }
+
+      const isActive = req.body.isActive === true || req.body.isActive === 'true'
+      if (user.isActive !== isActive) {
+        user.isActive = isActive
+        await user.save()
+        if (!isActive) await revokeAllSessions(user._id, 'user_deactivated')
+        await recordUserAudit({
+          action: isActive ? 'user.activated' : 'user.deactivated',
+          actorId: req.user._id,
+          targetId: user._id,
+          changes: { isActive: { from: !isActive, to: isActive } },
+          reason: req.body.reason,
+          ip: getClientIp(req),
+        })
+      }
+
+      res.json({ success: true, data: (user as any).profile })
+    } catch (error) {
+      console.error('Update user status error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating user status' })
+    }
+  }
+)
+
+// @desc    Sign a user out everywhere by revoking every token issued so far
+// @route   POST /api/admin/users/:id/logout
+// @access  Private/Admin
+router.post('/:id/logout', [idParam, reasonRule], async (req: any, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const user = await User.findById(req.params.id)
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' })
+      return
+    }
+
+    const previous = user.sessionsInvalidatedAt
+    user.sessionsInvalidatedAt = new Date()
+    await user.save()
+    await revokeAllSessions(user._id, 'admin_forced_logout')
+    await recordUserAudit({
+      action: 'user.sessions_revoked',
+      actorId: req.user._id,
+      targetId: user._id,
+      changes: { sessionsInvalidatedAt: { from: previous ?? null, to: user.sessionsInvalidatedAt } },
+      reason: req.body.reason,
+      ip: getClientIp(req),
+    })
+
+    res.json({ success: true, message: 'User has been signed out of all sessions' })
+  } catch (error) {
+    console.error('Force logout error:', error)
+    res.status(500).json({ success: false, error: 'Server error signing user out' })
+  }
+})
+
+// @desc    Lift a lockout caused by repeated failed logins
+// @route   POST /api/admin/users/:id/unlock
+// @access  Private/Admin
+router.post('/:id/unlock', [idParam, reasonRule], async (req: any, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const user = await User.findById(req.params.id)
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' })
+      return
+    }
+
+    if (getLockRetryAfter(user) === 0) {
+      res.status(400).json({ success: false, error: 'User account is not locked' })
+      return
+    }
+
+    await unlockUser(user, { actorId: req.user._id, reason: req.body.reason, ip: getClientIp(req) })
+
+    res.json({ success: true, message: 'User account has been unlocked' })
+  } catch (error) {
+    console.error('Unlock user error:', error)
+    res.status(500).json({ success: false, error: 'Server error unlocking user' })
+  }
+})
+
+// @desc    Clear a user's two-factor enrollment, e.g. after a lost device
+// @route   POST /api/admin/users/:id/2fa/reset
+// @access  Private/Admin
+router.post('/:id/2fa/reset', [idParam, reasonRule], async (req: any, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const user = await User.findById(req.params.id)
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' })
+      return
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({ success: false, error: 'User does not have two-factor authentication enabled' })
+      return
+    }
+
+    await User.updateOne({ _id: user._id }, {
+      $set: { twoFactorEnabled: false },
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorBackupCodes: 1,
+        twoFactorLastStep: 1,
+        twoFactorEnabledAt: 1,
+      },
+    })
+    await recordUserAudit({
+      action: 'user.two_factor_reset',
+      actorId: req.user._id,
+      targetId: user._id,
+      changes: { twoFactorEnabled: { from: true, to: false } },
+      reason: req.body.reason,
+      ip: getClientIp(req),
+    })
+
+    res.json({ success: true, message: 'Two-factor authentication has been reset' })
+  } catch (error) {
+    console.error('Two-factor reset error:', error)
+    res.status(500).json({ success: false, error: 'Server error resetting two-factor authentication' })
+  }
+})
+
+// @desc    Get the audit trail of changes made to a user
+// @route   GET /api/admin/users/:id/audit
+// @access  Private/Admin
+router.get(
+  '/:id/audit',
+  [
+    idParam,
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+      const filter = { targetType: 'User', targetId: req.params.id }
+
+      const [entries, total] = await Promise.all([
+        AuditLog.find(filter)
+          .populate('actorId', 'name email')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        AuditLog.countDocuments(filter),
+      ])
+
+      res.json({
+        success: true,
+        count: entries.length,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        data: entries,
+      })
+    } catch (error) {
+      console.error('Get user audit log error:', error)
+      res.status(500).json({ success: false, error: 'Server error fetching audit log' })
+    }
+  }
+)
+
+export { router as adminUserRoutes }
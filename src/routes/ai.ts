@@ -1,17 +1,19 @@
 import express, { Request, Response } from 'express'
 import { body, validationResult } from 'express-validator'
-import { protect } from '../middleware/auth'
-import axios from 'axios'
+import { protect, requirePermission } from '../middleware/auth'
+import { generateFallbackQuestions, calculateFallbackScore, generateFallbackAnalysis } from '../services/fallbackEngine'
+import { aiClient, getFallbackReason } from '../services/aiClient'
 
 const router = express.Router()
 
 // @desc    Generate AI questions for product
 // @route   POST /api/ai/generate-questions
-// @access  Private
+// @access  Private (ai:use)
 router.post(
   '/generate-questions',
   [
     protect,
+    requirePermission('ai:use'),
     body('productData').isObject().withMessage('Product data is required'),
     body('productData.name').notEmpty().withMessage('Product name is required'),
     body('productData.category').notEmpty().withMessage('Product category is required'),
@@ -32,15 +34,17 @@ router.post(
       const { productData } = req.body
 
       let aiQuestions
+      let fallbackReason: string | undefined
       try {
-        const aiResponse = await axios.post(`${process.env.AI_SERVICE_URL}/generate-questions`, { productData })
-        aiQuestions = aiResponse.data.questions
+        const aiResponse = await aiClient.generateQuestions(productData)
+        aiQuestions = aiResponse.questions
       } catch (aiError) {
-        console.error('AI service error:', aiError)
+        fallbackReason = getFallbackReason(aiError)
+        console.error('AI service error:', (aiError as Error).message)
         aiQuestions = generateFallbackQuestions(productData)
       }
 
-      res.json({ success: true, questions: aiQuestions })
+      res.json({ success: true, questions: aiQuestions, source: fallbackReason ? 'fallback' : 'ai', fallbackReason })
     } catch (error) {
       console.error('Generate questions error:', error)
       res.status(500).json({ success: false, error: 'Server error generating questions' })
@@ -50,11 +54,12 @@ router.post(
 
 // @desc    Calculate transparency score
 // @route   POST /api/ai/transparency-score
-// @access  Private
+// @access  Private (ai:use)
 router.post(
   '/transparency-score',
   [
     protect,
+    requirePermission('ai:use'),
     body('productData').isObject().withMessage('Product data is required'),
     body('answers').isObject().withMessage('Answers are required'),
   ],
@@ -73,15 +78,16 @@ router.post(
       const { productData, answers } = req.body
 
       let scoreData
+      let fallbackReason: string | undefined
       try {
-        const aiResponse = await axios.post(`${process.env.AI_SERVICE_URL}/transparency-score`, { productData, answers })
-        scoreData = aiResponse.data
+        scoreData = await aiClient.calculateTransparencyScore(productData, answers)
       } catch (aiError) {
-        console.error('AI service error:', aiError)
+        fallbackReason = getFallbackReason(aiError)
+        console.error('AI service error:', (aiError as Error).message)
         scoreData = calculateFallbackScore(productData, answers)
       }
 
-      res.json({ success: true, data: scoreData })
+      res.json({ success: true, data: scoreData, source: fallbackReason ? 'fallback' : 'ai', fallbackReason })
     } catch (error) {
       console.error('Calculate score error:', error)
       res.status(500).json({ success: false, error: 'Server error calculating score' })
@@ -91,11 +97,12 @@ router.post(
 
 // @desc    Analyze product for report generation
 // @route   POST /api/ai/analyze-product
-// @access  Private
+// @access  Private (ai:use)
 router.post(
   '/analyze-product',
   [
     protect,
+    requirePermission('ai:use'),
     body('product').isObject().withMessage('Product data is required'),
     body('answers').isObject().withMessage('Answers are required'),
   ],
@@ -114,15 +121,16 @@ router.post(
       const { product, answers } = req.body
 
       let analysis
+      let fallbackReason: string | undefined
       try {
-        const aiResponse = await axios.post(`${process.env.AI_SERVICE_URL}/api/ai/analyze-product`, { product, answers })
-        analysis = aiResponse.data
+        analysis = await aiClient.analyzeProduct(product, answers)
       } catch (aiError) {
-        console.error('AI service error:', aiError)
+        fallbackReason = getFallbackReason(aiError)
+        console.error('AI service error:', (aiError as Error).message)
         analysis = generateFallbackAnalysis(product, answers)
       }
 
-      res.json({ success: true, data: analysis })
+      res.json({ success: true, data: analysis, source: fallbackReason ? 'fallback' : 'ai', fallbackReason })
     } catch (error) {
       console.error('Analyze product error:', error)
       res.status(500).json({ success: false, error: 'Server error analyzing product' })
@@ -130,12 +138,4 @@ router.post(
   }
 )
 
-// --- Helper Functions (unchanged) ---
-function generateFallbackQuestions(productData: any) { /* same as before */ }
-function calculateFallbackScore(productData: any, answers: any) { /* same as before */ }
-function generateFallbackAnalysis(product: any, answers: any) { /* same as before */ }
-function generateStrengths(answers: any) { /* same as before */ }
-function generateImprovements(answers: any) { /* same as before */ }
-function generateRecommendations(answers: any) { /* same as before */ }
-
 export { router as aiRoutes }
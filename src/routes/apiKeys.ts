@@ -0,0 +1,133 @@
+import express, { Request, Response } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { ApiKey, API_KEY_OWNER_TYPES } from '../models/ApiKey'
+import { API_KEY_SCOPES, API_KEY_SCOPE_PERMISSIONS, ApiKeyScope, hasPermission } from '../config/permissions'
+import { protect, requirePermission } from '../middleware/auth'
+import { createApiKey, revokeApiKey } from '../services/apiKeys'
+
+const router = express.Router()
+
+// Keys are managed by people; the profile permissions are never granted to a key
+router.use(protect, requirePermission('profile:write'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+// Personal keys, plus the organization's keys for those who manage it
+const manageableKeysFilter = (user: any) =>
+  hasPermission(user, 'organization:manage')
+    ? { $or: [{ userId: user._id, ownerType: 'user' }, { organizationId: user.organizationId, ownerType: 'organization' }] }
+    : { userId: user._id, ownerType: 'user' }
+
+// @desc    List API keys
+// @route   GET /api/api-keys
+// @access  Private (profile:write)
+router.get('/', async (req: any, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await ApiKey.find(manageableKeysFilter(req.user))
+      .sort({ createdAt: -1 })
+      .populate('userId', 'name email')
+
+    res.json({ success: true, count: apiKeys.length, data: apiKeys })
+  } catch (error) {
+    console.error('List API keys error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching API keys' })
+  }
+})
+
+// @desc    Create an API key; the key itself is only returned in this response
+// @route   POST /api/api-keys
+// @access  Private (profile:write; organization:manage for organization keys)
+router.post(
+  '/',
+  [
+    body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+    body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+    body('scopes.*').isIn(API_KEY_SCOPES).withMessage('Invalid scope'),
+    body('ownerType').optional().isIn(API_KEY_OWNER_TYPES).withMessage('Invalid owner type'),
+    body('expiresInDays').optional().isInt({ min: 1, max: 3650 }).withMessage('expiresInDays must be between 1 and 3650'),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const ownerType = req.body.ownerType || 'user'
+      if (ownerType === 'organization' && !hasPermission(req.user, 'organization:manage')) {
+        res.status(403).json({
+          success: false,
+          error: 'Missing permission: organization:manage',
+          requiredPermission: 'organization:manage',
+        })
+        return
+      }
+
+      // A key cannot be given access its creator does not have
+      const scopes: ApiKeyScope[] = req.body.scopes
+      const ungranted = scopes.find(scope => API_KEY_SCOPE_PERMISSIONS[scope].some(permission => !hasPermission(req.user, permission)))
+      if (ungranted) {
+        res.status(403).json({ success: false, error: `Your role cannot grant scope: ${ungranted}` })
+        return
+      }
+
+      const expiresInDays = parseInt(req.body.expiresInDays)
+      const { apiKey, key } = await createApiKey(req.user, {
+        name: req.body.name,
+        scopes,
+        ownerType,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined,
+      })
+
+      res.status(201).json({
+        success: true,
+        message: 'Store this key somewhere safe; it will not be shown again.',
+        key,
+        data: apiKey,
+      })
+    } catch (error) {
+      console.error('Create API key error:', error)
+      res.status(500).json({ success: false, error: 'Server error creating API key' })
+    }
+  }
+)
+
+// @desc    Revoke an API key
+// @route   DELETE /api/api-keys/:id
+// @access  Private (profile:write; organization:manage for organization keys)
+router.delete(
+  '/:id',
+  [param('id').isMongoId().withMessage('Invalid API key ID')],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const apiKey = await ApiKey.findOne({ _id: req.params.id, ...manageableKeysFilter(req.user) })
+      if (!apiKey) {
+        res.status(404).json({ success: false, error: 'API key not found' })
+        return
+      }
+
+      const revoked = await revokeApiKey(apiKey._id, req.user._id)
+      if (!revoked) {
+        res.status(400).json({ success: false, error: 'API key has already been revoked' })
+        return
+      }
+
+      res.json({ success: true, data: revoked })
+    } catch (error) {
+      console.error('Revoke API key error:', error)
+      res.status(500).json({ success: false, error: 'Server error revoking API key' })
+    }
+  }
+)
+
+export { router as apiKeyRoutes }
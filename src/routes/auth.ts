@@ -1,11 +1,39 @@
 import express, { Request, Response } from 'express'
-import jwt from 'jsonwebtoken'
-import { body, validationResult } from 'express-validator'
+import { body, param, validationResult } from 'express-validator'
 import { User } from '../models/User'
-import { protect } from '../middleware/auth'
+import { Session } from '../models/Session'
+import { protect, requirePermission, requireUserSession } from '../middleware/auth'
+import { ensureUserOrganization } from '../services/tenancy'
+import { acceptInvitation, findPendingInvitation } from '../services/invitations'
+import { AuthTokenError, invalidateAllTokens, issueSession, revokeSession, rotateRefreshToken } from '../services/tokens'
+import { consumeAccountToken, invalidateAccountTokens, sendPasswordResetEmail, sendVerificationEmail } from '../services/accountTokens'
+import { getClientIp, getUserAgent } from '../utils/request'
+import { buildOtpauthUri, decryptSecret, encryptSecret, generateBackupCodes, generateTotpSecret, hashBackupCode, verifyTotp } from '../services/totp'
+import { createLoginChallenge, isTwoFactorRequired, verifyLoginChallenge, verifySecondFactor } from '../services/twoFactor'
+import { clearLoginFailures, getLockRetryAfter, getLoginRetryAfter, recordLoginFailure, unlockUser } from '../services/loginProtection'
 
 const router = express.Router()
 
+const sendLoginThrottled = (res: Response, retryAfter: number) => {
+  res.set('Retry-After', String(retryAfter))
+  return res.status(429).json({
+    success: false,
+    error: 'Too many failed login attempts. Please try again later.',
+    retryAfter
+  })
+}
+
+const sendAccountLocked = (res: Response, lockedUntil: Date) => {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+  res.set('Retry-After', String(retryAfter))
+  return res.status(423).json({
+    success: false,
+    error: 'Account is temporarily locked due to too many failed login attempts',
+    lockedUntil,
+    retryAfter
+  })
+}
+
 // @desc    Register user
 // @route   POST /api/auth/register
 // @access  Public
@@ -13,7 +41,8 @@ router.post('/register', [
   body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
   body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
   body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
-  body('company').optional().trim().isLength({ max: 200 }).withMessage('Company name cannot exceed 200 characters')
+  body('company').optional().trim().isLength({ max: 200 }).withMessage('Company name cannot exceed 200 characters'),
+  body('inviteToken').optional().isString().trim().notEmpty().withMessage('Invitation token must be a non-empty string')
 ], async (req: Request, res: Response) => {
   try {
     // Check for validation errors
@@ -26,7 +55,7 @@ router.post('/register', [
       })
     }
 
-    const { name, email, password, company } = req.body
+    const { name, email, password, company, inviteToken } = req.body
 
     // Check if user already exists
     const existingUser = await User.findOne({ email })
@@ -37,6 +66,15 @@ router.post('/register', [
       })
     }
 
+    // Invited users join the inviting organization instead of getting their own
+    const invitation = inviteToken ? await findPendingInvitation(inviteToken) : null
+    if (inviteToken && (!invitation || invitation.email !== email.toLowerCase())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invitation is invalid or has expired'
+      })
+    }
+
     // Create user
     const user = await User.create({
       name,
@@ -45,19 +83,27 @@ router.post('/register', [
       company
     })
 
-    // Generate JWT token
-    // ensure JWT_SECRET is present
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) {
-      console.error('JWT_SECRET is not set')
-      return res.status(500).json({ success: false, error: 'Server misconfiguration' })
+    // Every other account starts in its own organization, named after the company when given
+    if (invitation && (await acceptInvitation(invitation, user))) {
+      // The invitation link reached this inbox, which proves the address
+      user.emailVerified = true
+      user.emailVerifiedAt = new Date()
+      await user.save()
+    } else {
+      await ensureUserOrganization(user)
+      sendVerificationEmail(user).catch(error => {
+        console.error('Verification email error:', (error as Error).message)
+      })
     }
-    const signOptions: any = { expiresIn: process.env.JWT_EXPIRE || '7d' }
-    const token = jwt.sign({ id: user._id }, jwtSecret, signOptions)
+
+    // Issue a short-lived access token and the session's refresh token
+    const { token, refreshToken, expiresIn } = await issueSession(user, { ip: getClientIp(req), userAgent: getUserAgent(req) })
 
     return res.status(201).json({
       success: true,
       token,
+      refreshToken,
+      expiresIn,
       // user.profile is a mongoose virtual — cast to any for now
       user: (user as any).profile
     })
@@ -89,16 +135,29 @@ router.post('/login', [
     }
 
     const { email, password } = req.body
+    const ip = getClientIp(req)
+
+    // Progressive delay after repeated failures for this email or IP
+    const retryAfter = await getLoginRetryAfter(email, ip)
+    if (retryAfter > 0) {
+      return sendLoginThrottled(res, retryAfter)
+    }
 
     // Check for user and include password
     const user = await User.findOne({ email }).select('+password')
     if (!user) {
+      await recordLoginFailure(email, ip)
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials'
       })
     }
 
+    const lockRetryAfter = getLockRetryAfter(user)
+    if (lockRetryAfter > 0) {
+      return sendAccountLocked(res, user.lockUntil!)
+    }
+
     // Check if user is active
     if (!user.isActive) {
       return res.status(401).json({
@@ -110,29 +169,40 @@ router.post('/login', [
     // Check password
     const isMatch = await user.comparePassword(password)
     if (!isMatch) {
+      const { lockedUntil } = await recordLoginFailure(email, ip, user)
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil)
+      }
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials'
       })
     }
 
+    // Enrolled users finish signing in with a one-time code at /login/2fa
+    if (user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge(user)
+      })
+    }
+
+    await clearLoginFailures(user)
+
     // Update last login
     user.lastLogin = new Date()
     await user.save()
 
-    // Generate JWT token
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) {
-      console.error('JWT_SECRET is not set')
-      return res.status(500).json({ success: false, error: 'Server misconfiguration' })
-    }
-    const signOptions: any = { expiresIn: process.env.JWT_EXPIRE || '7d' }
-    const token = jwt.sign({ id: user._id }, jwtSecret, signOptions)
+    const { token, refreshToken, expiresIn } = await issueSession(user, { ip, userAgent: getUserAgent(req) })
 
     return res.json({
       success: true,
       token,
-      user: (user as any).profile
+      refreshToken,
+      expiresIn,
+      user: (user as any).profile,
+      twoFactorSetupRequired: await isTwoFactorRequired(user)
     })
   } catch (error) {
     console.error('Login error:', error)
@@ -143,10 +213,666 @@ router.post('/login', [
   }
 })
 
+// @desc    Complete a two-factor login with a TOTP or backup code
+// @route   POST /api/auth/login/2fa
+// @access  Public
+router.post('/login/2fa', [
+  body('challengeToken').isString().notEmpty().withMessage('Challenge token is required'),
+  body('code').isString().trim().notEmpty().withMessage('Code is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const { userId, issuedAt } = verifyLoginChallenge(req.body.challengeToken)
+    const user = await User.findById(userId)
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid credentials'
+      })
+    }
+
+    // A password change or reset voids challenges earned with the old password
+    if (user.sessionsInvalidatedAt && issuedAt < Math.floor(user.sessionsInvalidatedAt.getTime() / 1000)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Login challenge has expired',
+        reason: 'revoked'
+      })
+    }
+
+    const ip = getClientIp(req)
+    const retryAfter = await getLoginRetryAfter(user.email, ip)
+    if (retryAfter > 0) {
+      return sendLoginThrottled(res, retryAfter)
+    }
+    if (getLockRetryAfter(user) > 0) {
+      return sendAccountLocked(res, user.lockUntil!)
+    }
+
+    const method = await verifySecondFactor(user._id, req.body.code)
+    if (!method) {
+      const { lockedUntil } = await recordLoginFailure(user.email, ip, user)
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil)
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid two-factor code'
+      })
+    }
+
+    await clearLoginFailures(user)
+
+    user.lastLogin = new Date()
+    await user.save()
+
+    const { token, refreshToken, expiresIn } = await issueSession(user, { ip, userAgent: getUserAgent(req) })
+
+    return res.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn,
+      user: (user as any).profile,
+      twoFactorMethod: method
+    })
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message,
+        reason: error.reason
+      })
+    }
+    console.error('Two-factor login error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error during login'
+    })
+  }
+})
+
+// @desc    Start TOTP enrollment; returns the secret and otpauth:// URI for a QR code
+// @route   POST /api/auth/2fa/setup
+// @access  Private (profile:write)
+router.post('/2fa/setup', protect, requirePermission('profile:write'), async (req: any, res: Response) => {
+  try {
+    if (req.user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      })
+    }
+
+    const secret = generateTotpSecret()
+    await User.updateOne({ _id: req.user._id }, { $set: { twoFactorPendingSecret: encryptSecret(secret) } })
+
+    return res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUrl: buildOtpauthUri(secret, req.user.email)
+      }
+    })
+  } catch (error) {
+    console.error('Two-factor setup error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error starting two-factor setup'
+    })
+  }
+})
+
+// @desc    Confirm TOTP enrollment with a first code; returns backup codes once
+// @route   POST /api/auth/2fa/confirm
+// @access  Private (profile:write)
+router.post('/2fa/confirm', [
+  protect,
+  requirePermission('profile:write'),
+  body('code').isString().trim().notEmpty().withMessage('Code is required')
+], async (req: any, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const user = await User.findById(req.user._id).select('+twoFactorPendingSecret')
+    if (!user?.twoFactorPendingSecret) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start two-factor setup first'
+      })
+    }
+
+    const secret = decryptSecret(user.twoFactorPendingSecret)
+    const step = verifyTotp(secret, req.body.code.replace(/\s+/g, ''))
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid two-factor code'
+      })
+    }
+
+    const backupCodes = generateBackupCodes()
+    await User.updateOne({ _id: user._id }, {
+      $set: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorLastStep: step,
+        twoFactorBackupCodes: backupCodes.map(hashBackupCode)
+      },
+      $unset: { twoFactorPendingSecret: 1 }
+    })
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store these backup codes somewhere safe; they will not be shown again.',
+      backupCodes
+    })
+  } catch (error) {
+    console.error('Two-factor confirm error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error confirming two-factor setup'
+    })
+  }
+})
+
+// @desc    Replace the backup codes
+// @route   POST /api/auth/2fa/backup-codes
+// @access  Private (profile:write)
+router.post('/2fa/backup-codes', [
+  protect,
+  requirePermission('profile:write'),
+  body('code').isString().trim().notEmpty().withMessage('Code is required')
+], async (req: any, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    if (!(await verifySecondFactor(req.user._id, req.body.code))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid two-factor code'
+      })
+    }
+
+    const backupCodes = generateBackupCodes()
+    await User.updateOne({ _id: req.user._id }, { $set: { twoFactorBackupCodes: backupCodes.map(hashBackupCode) } })
+
+    return res.json({
+      success: true,
+      backupCodes
+    })
+  } catch (error) {
+    console.error('Backup code regeneration error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error regenerating backup codes'
+    })
+  }
+})
+
+// @desc    Turn off two-factor authentication
+// @route   POST /api/auth/2fa/disable
+// @access  Private (profile:write)
+router.post('/2fa/disable', [
+  protect,
+  requirePermission('profile:write'),
+  body('password').notEmpty().withMessage('Password is required'),
+  body('code').isString().trim().notEmpty().withMessage('Code is required')
+], async (req: any, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    if (await isTwoFactorRequired(req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is required for your role and cannot be disabled'
+      })
+    }
+
+    if (!(await req.user.comparePassword(req.body.password)) || !(await verifySecondFactor(req.user._id, req.body.code))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid password or two-factor code'
+      })
+    }
+
+    await User.updateOne({ _id: req.user._id }, {
+      $set: { twoFactorEnabled: false },
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorBackupCodes: 1,
+        twoFactorLastStep: 1,
+        twoFactorEnabledAt: 1
+      }
+    })
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    })
+  } catch (error) {
+    console.error('Two-factor disable error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error disabling two-factor authentication'
+    })
+  }
+})
+
+// @desc    Exchange a refresh token for a new access/refresh token pair
+// @route   POST /api/auth/refresh
+// @access  Public
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const { token, refreshToken, expiresIn, user } = await rotateRefreshToken(req.body.refreshToken, {
+      ip: getClientIp(req),
+      userAgent: getUserAgent(req)
+    })
+
+    return res.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn,
+      user: (user as any).profile
+    })
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message,
+        reason: error.reason
+      })
+    }
+    console.error('Token refresh error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error refreshing token'
+    })
+  }
+})
+
+// @desc    Log out of the current session
+// @route   POST /api/auth/logout
+// @access  Private
+router.post('/logout', protect, requireUserSession, async (req: any, res: Response) => {
+  try {
+    if (req.sessionId) await revokeSession(req.sessionId, 'logout')
+
+    return res.json({
+      success: true,
+      message: 'Logged out successfully'
+    })
+  } catch (error) {
+    console.error('Logout error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error during logout'
+    })
+  }
+})
+
+// @desc    Log out of every session, including tokens issued before sessions existed
+// @route   POST /api/auth/logout-all
+// @access  Private
+router.post('/logout-all', protect, requireUserSession, async (req: any, res: Response) => {
+  try {
+    await invalidateAllTokens(req.user._id, 'logout_all')
+
+    return res.json({
+      success: true,
+      message: 'Logged out of all sessions'
+    })
+  } catch (error) {
+    console.error('Logout all error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error during logout'
+    })
+  }
+})
+
+// @desc    Email a password reset link
+// @route   POST /api/auth/forgot-password
+// @access  Public
+router.post('/forgot-password', [
+  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const user = await User.findOne({ email: req.body.email })
+    if (user && user.isActive) {
+      await sendPasswordResetEmail(user)
+    }
+
+    // Same response either way, so the endpoint can't be used to discover accounts
+    return res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    })
+  } catch (error) {
+    console.error('Forgot password error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error requesting password reset'
+    })
+  }
+})
+
+// @desc    Set a new password with a reset token
+// @route   POST /api/auth/reset-password
+// @access  Public
+router.post('/reset-password', [
+  body('token').isString().notEmpty().withMessage('Reset token is required'),
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'password_reset')
+    const user = await User.findById(userId).select('+password')
+    if (!user || !user.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid token',
+        reason: 'invalid'
+      })
+    }
+
+    user.password = req.body.password
+    await user.save()
+    await invalidateAllTokens(user._id, 'password_reset')
+    await invalidateAccountTokens(user._id, 'password_reset')
+    // Proving control of the mailbox is enough to lift a lockout
+    if (getLockRetryAfter(user) > 0) {
+      await unlockUser(user, { reason: 'Password reset', ip: getClientIp(req) })
+    }
+
+    return res.json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password.'
+    })
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        reason: error.reason
+      })
+    }
+    console.error('Reset password error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error resetting password'
+    })
+  }
+})
+
+// @desc    Resend the email verification link
+// @route   POST /api/auth/verify-email/request
+// @access  Private (profile:write)
+router.post('/verify-email/request', protect, requirePermission('profile:write'), async (req: any, res: Response) => {
+  try {
+    if (req.user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is already verified'
+      })
+    }
+
+    await sendVerificationEmail(req.user)
+
+    return res.json({
+      success: true,
+      message: 'Verification email sent'
+    })
+  } catch (error) {
+    console.error('Verification request error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error sending verification email'
+    })
+  }
+})
+
+// @desc    Confirm an email address with a verification token
+// @route   POST /api/auth/verify-email
+// @access  Public
+router.post('/verify-email', [
+  body('token').isString().notEmpty().withMessage('Verification token is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'email_verification')
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      { new: true }
+    )
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid token',
+        reason: 'invalid'
+      })
+    }
+
+    return res.json({
+      success: true,
+      user: (user as any).profile
+    })
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        reason: error.reason
+      })
+    }
+    console.error('Verify email error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error verifying email'
+    })
+  }
+})
+
+// @desc    Change password; signs out every other session
+// @route   PUT /api/auth/password
+// @access  Private (profile:write)
+router.put('/password', [
+  protect,
+  requirePermission('profile:write'),
+  body('currentPassword').notEmpty().withMessage('Current password is required'),
+  body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters')
+], async (req: any, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const user = await User.findById(req.user._id).select('+password')
+    if (!user || !(await user.comparePassword(req.body.currentPassword))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Current password is incorrect'
+      })
+    }
+
+    user.password = req.body.newPassword
+    await user.save()
+    // Revokes every session and refresh token, including the caller's, as a reset does
+    await invalidateAllTokens(user._id, 'password_changed')
+    await invalidateAccountTokens(user._id, 'password_reset')
+
+    // The caller gets a fresh session so only this device stays signed in
+    const { token, refreshToken, expiresIn } = await issueSession(user, { ip: getClientIp(req), userAgent: getUserAgent(req) })
+
+    return res.json({
+      success: true,
+      message: 'Password changed successfully',
+      token,
+      refreshToken,
+      expiresIn
+    })
+  } catch (error) {
+    console.error('Change password error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error changing password'
+    })
+  }
+})
+
+// @desc    List the current user's active sessions
+// @route   GET /api/auth/sessions
+// @access  Private (profile:read)
+router.get('/sessions', protect, requirePermission('profile:read'), async (req: any, res: Response) => {
+  try {
+    const sessions = await Session.find({
+      userId: req.user._id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 })
+
+    return res.json({
+      success: true,
+      count: sessions.length,
+      data: sessions.map(session => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.sessionId
+      }))
+    })
+  } catch (error) {
+    console.error('Get sessions error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error fetching sessions'
+    })
+  }
+})
+
+// @desc    Revoke one of the current user's sessions
+// @route   DELETE /api/auth/sessions/:id
+// @access  Private (profile:write)
+router.delete('/sessions/:id', [
+  protect,
+  requirePermission('profile:write'),
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req: any, res: Response) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      })
+    }
+
+    const session = await Session.findOne({ _id: req.params.id, userId: req.user._id, revokedAt: null })
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      })
+    }
+
+    await revokeSession(session._id, 'user_revoked')
+
+    return res.json({
+      success: true,
+      message: 'Session revoked',
+      current: session._id.toString() === req.sessionId
+    })
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Server error revoking session'
+    })
+  }
+})
+
 // @desc    Get current user
 // @route   GET /api/auth/profile
-// @access  Private
-router.get('/profile', protect, async (req: any, res: Response) => {
+// @access  Private (profile:read)
+router.get('/profile', protect, requirePermission('profile:read'), async (req: any, res: Response) => {
   try {
     const user = await User.findById(req.user._id)
     return res.json({
@@ -164,9 +890,10 @@ router.get('/profile', protect, async (req: any, res: Response) => {
 
 // @desc    Update user profile
 // @route   PUT /api/auth/profile
-// @access  Private
+// @access  Private (profile:write)
 router.put('/profile', [
   protect,
+  requirePermission('profile:write'),
   body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
   body('company').optional().trim().isLength({ max: 200 }).withMessage('Company name cannot exceed 200 characters')
 ], async (req: any, res: Response) => {
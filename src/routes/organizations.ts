@@ -0,0 +1,318 @@
+import express, { Request, Response } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { Organization } from '../models/Organization'
+import { Invitation, INVITATION_ROLES } from '../models/Invitation'
+import { User } from '../models/User'
+import { Product } from '../models/Product'
+import { Report } from '../models/Report'
+import { protect, requirePermission, requireUserSession } from '../middleware/auth'
+import { acceptInvitation, createInvitation, findPendingInvitation } from '../services/invitations'
+import { detachFromOrganization } from '../services/tenancy'
+
+const router = express.Router()
+
+router.use(protect)
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+const MEMBER_FIELDS = 'name email organizationRole isActive lastLogin createdAt'
+
+// Owners manage org-admins; org-admins manage every other role. Platform admins act as owners.
+const canManageRole = (user: any, role?: string) =>
+  user.role === 'admin' || user.organizationRole === 'owner' || (!!role && role !== 'owner' && role !== 'org-admin')
+
+// @desc    Get the current user's organization and its members
+// @route   GET /api/organizations/current
+// @access  Private (profile:read)
+router.get('/current', requirePermission('profile:read'), async (req: any, res: Response): Promise<void> => {
+  try {
+    const organization = await Organization.findById(req.user.organizationId).populate({
+      path: 'members',
+      select: MEMBER_FIELDS,
+      options: { sort: { createdAt: 1 } },
+    })
+    if (!organization) {
+      res.status(404).json({ success: false, error: 'Organization not found' })
+      return
+    }
+
+    res.json({ success: true, data: organization, role: req.user.organizationRole })
+  } catch (error) {
+    console.error('Get organization error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching organization' })
+  }
+})
+
+// @desc    Rename the current organization
+// @route   PUT /api/organizations/current
+// @access  Private (organization:manage)
+router.put(
+  '/current',
+  [
+    requirePermission('organization:manage'),
+    body('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters'),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const organization = await Organization.findByIdAndUpdate(
+        req.user.organizationId,
+        { name: req.body.name },
+        { new: true, runValidators: true }
+      )
+      if (!organization) {
+        res.status(404).json({ success: false, error: 'Organization not found' })
+        return
+      }
+
+      res.json({ success: true, data: organization })
+    } catch (error) {
+      console.error('Update organization error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating organization' })
+    }
+  }
+)
+
+// @desc    List pending invitations
+// @route   GET /api/organizations/current/invitations
+// @access  Private (user:manage)
+router.get('/current/invitations', requirePermission('user:manage'), async (req: any, res: Response): Promise<void> => {
+  try {
+    const invitations = await Invitation.find({
+      organizationId: req.user.organizationId,
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 })
+
+    res.json({ success: true, count: invitations.length, data: invitations })
+  } catch (error) {
+    console.error('Get invitations error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching invitations' })
+  }
+})
+
+// @desc    Invite someone to the current organization by email
+// @route   POST /api/organizations/current/invitations
+// @access  Private (user:manage)
+router.post(
+  '/current/invitations',
+  [
+    requirePermission('user:manage'),
+    body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
+    body('role').optional().isIn(INVITATION_ROLES).withMessage(`Role must be one of: ${INVITATION_ROLES.join(', ')}`),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const role = req.body.role || 'editor'
+      if (!canManageRole(req.user, role)) {
+        res.status(403).json({ success: false, error: 'Only the organization owner can invite org-admins' })
+        return
+      }
+
+      const organization = await Organization.findById(req.user.organizationId)
+      if (!organization) {
+        res.status(404).json({ success: false, error: 'Organization not found' })
+        return
+      }
+
+      const existingMember = await User.exists({ email: req.body.email, organizationId: organization._id })
+      if (existingMember) {
+        res.status(409).json({ success: false, error: 'User is already a member of this organization' })
+        return
+      }
+
+      const invitation = await createInvitation(organization, req.body.email, role, req.user)
+
+      res.status(201).json({ success: true, data: invitation })
+    } catch (error) {
+      console.error('Create invitation error:', error)
+      res.status(500).json({ success: false, error: 'Server error creating invitation' })
+    }
+  }
+)
+
+// @desc    Revoke a pending invitation
+// @route   DELETE /api/organizations/current/invitations/:invitationId
+// @access  Private (user:manage)
+router.delete(
+  '/current/invitations/:invitationId',
+  [requirePermission('user:manage'), param('invitationId').isMongoId().withMessage('Invalid invitation ID')],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const invitation = await Invitation.findOneAndUpdate(
+        { _id: req.params.invitationId, organizationId: req.user.organizationId, acceptedAt: null, revokedAt: null },
+        { $set: { revokedAt: new Date() } },
+        { new: true }
+      )
+      if (!invitation) {
+        res.status(404).json({ success: false, error: 'Invitation not found' })
+        return
+      }
+
+      res.json({ success: true, data: invitation })
+    } catch (error) {
+      console.error('Revoke invitation error:', error)
+      res.status(500).json({ success: false, error: 'Server error revoking invitation' })
+    }
+  }
+)
+
+// @desc    Accept an invitation as the signed-in user
+// @route   POST /api/organizations/invitations/accept
+// @access  Private
+router.post(
+  '/invitations/accept',
+  [requireUserSession, body('token').isString().trim().notEmpty().withMessage('Invitation token is required')],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const invitation = await findPendingInvitation(req.body.token)
+      if (!invitation) {
+        res.status(400).json({ success: false, error: 'Invitation is invalid or has expired' })
+        return
+      }
+
+      if (invitation.email !== req.user.email.toLowerCase()) {
+        res.status(403).json({ success: false, error: 'This invitation was sent to a different email address' })
+        return
+      }
+
+      // The last owner may only leave an organization that has nothing left to own
+      if (req.user.organizationRole === 'owner' && !invitation.organizationId.equals(req.user.organizationId)) {
+        const organizationId = req.user.organizationId
+        const [otherOwners, otherMembers, products, reports] = await Promise.all([
+          User.countDocuments({ organizationId, organizationRole: 'owner', _id: { $ne: req.user._id } }),
+          User.countDocuments({ organizationId, _id: { $ne: req.user._id } }),
+          Product.countDocuments({ organizationId }),
+          Report.countDocuments({ organizationId }),
+        ])
+        if (otherOwners === 0 && otherMembers + products + reports > 0) {
+          res.status(409).json({
+            success: false,
+            error:
+              'You are the only owner of your current organization. Remove its other members, products and reports, ' +
+              'or ask a platform administrator to make another member an owner, before joining another organization',
+          })
+          return
+        }
+      }
+
+      if (!(await acceptInvitation(invitation, req.user))) {
+        res.status(400).json({ success: false, error: 'Invitation is invalid or has expired' })
+        return
+      }
+
+      const organization = await Organization.findById(invitation.organizationId)
+
+      res.json({ success: true, data: organization, user: req.user.profile })
+    } catch (error) {
+      console.error('Accept invitation error:', error)
+      res.status(500).json({ success: false, error: 'Server error accepting invitation' })
+    }
+  }
+)
+
+// @desc    Change a member's role
+// @route   PUT /api/organizations/current/members/:userId
+// @access  Private (user:manage)
+router.put(
+  '/current/members/:userId',
+  [
+    requirePermission('user:manage'),
+    param('userId').isMongoId().withMessage('Invalid user ID'),
+    body('role').isIn(INVITATION_ROLES).withMessage(`Role must be one of: ${INVITATION_ROLES.join(', ')}`),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      if (req.user._id.equals(req.params.userId)) {
+        res.status(400).json({ success: false, error: 'You cannot change your own role' })
+        return
+      }
+
+      const member = await User.findOne({ _id: req.params.userId, organizationId: req.user.organizationId })
+      if (!member) {
+        res.status(404).json({ success: false, error: 'Member not found' })
+        return
+      }
+
+      if (member.organizationRole === 'owner') {
+        res.status(403).json({ success: false, error: "The organization owner's role cannot be changed" })
+        return
+      }
+
+      if (!canManageRole(req.user, member.organizationRole) || !canManageRole(req.user, req.body.role)) {
+        res.status(403).json({ success: false, error: 'Only the organization owner can manage org-admins' })
+        return
+      }
+
+      member.organizationRole = req.body.role
+      await member.save()
+
+      res.json({ success: true, data: (member as any).profile })
+    } catch (error) {
+      console.error('Update member role error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating member role' })
+    }
+  }
+)
+
+// @desc    Remove a member from the organization
+// @route   DELETE /api/organizations/current/members/:userId
+// @access  Private (user:manage)
+router.delete(
+  '/current/members/:userId',
+  [requirePermission('user:manage'), param('userId').isMongoId().withMessage('Invalid user ID')],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      if (req.user._id.equals(req.params.userId)) {
+        res.status(400).json({ success: false, error: 'You cannot remove yourself from the organization' })
+        return
+      }
+
+      const member = await User.findOne({ _id: req.params.userId, organizationId: req.user.organizationId })
+      if (!member) {
+        res.status(404).json({ success: false, error: 'Member not found' })
+        return
+      }
+
+      if (member.organizationRole === 'owner' || !canManageRole(req.user, member.organizationRole)) {
+        res.status(403).json({ success: false, error: 'You cannot remove this member' })
+        return
+      }
+
+      // The removed member continues in a personal organization of their own
+      await detachFromOrganization(member)
+
+      res.json({ success: true, message: 'Member removed from organization' })
+    } catch (error) {
+      console.error('Remove member error:', error)
+      res.status(500).json({ success: false, error: 'Server error removing member' })
+    }
+  }
+)
+
+export { router as organizationRoutes }
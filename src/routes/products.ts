@@ -1,23 +1,216 @@
-import express, { Request, Response } from 'express'
-import { body, validationResult, query } from 'express-validator'
-import { Product } from '../models/Product'
-import { protect } from '../middleware/auth'
+import express, { NextFunction, Request, Response } from 'express'
+import { body, validationResult, query, ValidationChain } from 'express-validator'
+import mongoose, { PipelineStage } from 'mongoose'
+import multer from 'multer'
+import { Product, PRODUCT_CATEGORIES } from '../models/Product'
+import { Question } from '../models/Question'
+import { Report } from '../models/Report'
+import { Organization } from '../models/Organization'
+import { protect, requirePermission } from '../middleware/auth'
+import { getTenantFilter } from '../services/tenancy'
+import { EXPORT_FORMATS, ExportFormat, streamExport } from '../utils/exportStream'
+import { ImportFieldError, importProducts, parseImportFile, PRODUCT_IMPORT_FIELDS, ProductImportError, ProductImportField, splitList } from '../services/productImport'
+import { exactMatchRegex } from '../utils/regex'
+import { resolveIngredients } from '../services/ingredientResolver'
+import { buildCursorPage, buildCursorQuery, PAGINATION_MODES, PaginationError, parseSort, sortOptions, toMongoSort } from '../utils/pagination'
+import { questionRoutes } from './questions'
 
 const router = express.Router()
 
+interface AuthRequest extends Request {
+  user?: any
+}
+
+// Only admins may place a product in an organization other than their own
+const resolveTargetOrganization = async (req: AuthRequest) => {
+  const requested = req.body.organizationId
+  if (req.user.role !== 'admin' || !requested) return req.user.organizationId
+  return (await Organization.exists({ _id: requested })) ? requested : null
+}
+
+// Filters shared by the list and export routes
+const productFilterRules: ValidationChain[] = [
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term cannot exceed 100 characters'),
+  query('category').optional().trim().isLength({ max: 50 }).withMessage('Category cannot exceed 50 characters'),
+  query('brand').optional().isLength({ max: 500 }).withMessage('Brand filter cannot exceed 500 characters'),
+  query('ingredients').optional().isLength({ max: 1000 }).withMessage('Ingredients filter cannot exceed 1000 characters'),
+  query('certifications').optional().isLength({ max: 500 }).withMessage('Certifications filter cannot exceed 500 characters'),
+  query(['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo']).optional().isISO8601().withMessage('Dates must be ISO 8601'),
+  query('organizationId').optional().isMongoId().withMessage('Invalid organization ID'),
+]
+
+// Accepts repeated parameters and/or separated values: ?brand=A&brand=B or ?brand=A;B
+const queryList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+  return values.flatMap(item => splitList(String(item)))
+}
+
+// A date-only upper bound covers that whole day
+const dateRange = (from: unknown, to: unknown) => {
+  const range: Record<string, Date> = {}
+  if (typeof from === 'string') range.$gte = new Date(from)
+  if (typeof to === 'string') {
+    const end = new Date(to)
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      end.setUTCDate(end.getUTCDate() + 1)
+      range.$lt = end
+    } else {
+      range.$lte = end
+    }
+  }
+  return Object.keys(range).length > 0 ? range : null
+}
+
+const buildProductFilter = (req: AuthRequest): Record<string, any> => {
+  const search = req.query.search as string | undefined
+  const category = req.query.category as string | undefined
+
+  const queryObj: Record<string, any> = getTenantFilter(req.user, req.query.organizationId)
+
+  // Uses the text index on name/brand/description; the term is never treated as a pattern
+  if (search) {
+    queryObj.$text = { $search: search }
+  }
+
+  if (category) {
+    queryObj.category = category
+  }
+
+  const brands = queryList(req.query.brand)
+  if (brands.length > 0) {
+    queryObj.brand = { $in: brands.map(exactMatchRegex) }
+  }
+
+  // Products must contain every listed ingredient and certification
+  const ingredients = queryList(req.query.ingredients)
+  if (ingredients.length > 0) {
+    queryObj.ingredients = { $all: ingredients.map(exactMatchRegex) }
+  }
+
+  const certifications = queryList(req.query.certifications)
+  if (certifications.length > 0) {
+    queryObj.certifications = { $all: certifications.map(exactMatchRegex) }
+  }
+
+  const created = dateRange(req.query.createdFrom, req.query.createdTo)
+  if (created) queryObj.createdAt = created
+
+  const updated = dateRange(req.query.updatedFrom, req.query.updatedTo)
+  if (updated) queryObj.updatedAt = updated
+
+  return queryObj
+}
+
+// Most relevant first when searching, otherwise newest first
+const productSort = (req: AuthRequest): Record<string, any> =>
+  req.query.search ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 }
+
+const FACET_LIMIT = 20
+
+// `score` is text-search relevance and needs a search term
+const PRODUCT_SORT_FIELDS = ['createdAt', 'updatedAt', 'name', 'score'] as const
+
+const PRODUCT_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'brand',
+  'category',
+  'ingredients',
+  'unresolvedIngredients',
+  'certifications',
+  'description',
+  'packaging',
+  'sustainability',
+  'organizationId',
+  'createdAt',
+  'updatedAt',
+]
+
+// Shared by the create route and each row of an import
+const productCreateRules: ValidationChain[] = [
+  body('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters'),
+  body('category')
+    .isIn(PRODUCT_CATEGORIES)
+    .withMessage('Invalid category'),
+  body('brand').trim().isLength({ min: 1, max: 100 }).withMessage('Brand must be between 1 and 100 characters'),
+  body('ingredients').isArray({ min: 1 }).withMessage('At least one ingredient is required'),
+  body('ingredients.*')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Each ingredient must be between 1 and 100 characters'),
+  body('description').optional().trim().isLength({ max: 1000 }).withMessage('Description cannot exceed 1000 characters'),
+  body('certifications').optional().isArray().withMessage('Certifications must be an array'),
+  body('certifications.*')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Each certification cannot exceed 100 characters'),
+  body('packaging').optional().trim().isLength({ max: 200 }).withMessage('Packaging description cannot exceed 200 characters'),
+  body('sustainability')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Sustainability description cannot exceed 500 characters'),
+]
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880'), files: 1 },
+})
+
+// Reports multer failures (e.g. file too large) as validation errors rather than a 500
+const uploadImportFile = (req: Request, res: Response, next: NextFunction) => {
+  importUpload.single('file')(req, res, error => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof multer.MulterError ? `Upload failed: ${error.message}` : 'Upload failed',
+      })
+      return
+    }
+    next()
+  })
+}
+
+// Runs the create route's rules, then the schema's, so a dry run reports everything an insert would
+const validateImportRow = async (row: Record<string, unknown>, defaults: Record<string, unknown>): Promise<ImportFieldError[]> => {
+  const rowReq = { body: row }
+  for (const rule of productCreateRules) {
+    await rule.run(rowReq)
+  }
+  const errors = validationResult(rowReq)
+    .array()
+    .map(error => ({ field: error.type === 'field' ? error.path : undefined, message: error.msg as string }))
+  if (errors.length > 0) return errors
+
+  try {
+    await new Product({ ...row, ...defaults }).validate()
+    return []
+  } catch (error) {
+    if (!(error instanceof mongoose.Error.ValidationError)) throw error
+    return Object.values(error.errors).map(fieldError => ({ field: fieldError.path, message: fieldError.message }))
+  }
+}
+
+// Questionnaire for a product
+router.use('/:id/questions', questionRoutes)
+
 // @desc    Get all products
 // @route   GET /api/products
-// @access  Private
+// @access  Private (product:read)
 router.get(
   '/',
   [
     protect,
+    requirePermission('product:read'),
     query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
-    query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term cannot exceed 100 characters'),
-    query('category').optional().trim().isLength({ max: 50 }).withMessage('Category cannot exceed 50 characters'),
+    query('paginate').optional().isIn(PAGINATION_MODES).withMessage(`paginate must be one of: ${PAGINATION_MODES.join(', ')}`),
+    query('cursor').optional().isString().isLength({ max: 1000 }).withMessage('Invalid cursor'),
+    query('sort').optional().isIn(sortOptions(PRODUCT_SORT_FIELDS)).withMessage(`Sort must be one of: ${sortOptions(PRODUCT_SORT_FIELDS).join(', ')}`),
+    ...productFilterRules,
   ],
-  async (req: Request, res: Response): Promise<void> => {
+  async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req)
       if (!errors.isEmpty()) {
@@ -32,30 +225,68 @@ router.get(
       const page = parseInt((req.query.page as string) ?? '1')
       const limit = parseInt((req.query.limit as string) ?? '10')
       const skip = (page - 1) * limit
-      const search = req.query.search as string | undefined
-      const category = req.query.category as string | undefined
+      const queryObj = buildProductFilter(req)
+      const searching = !!req.query.search
 
-      const queryObj: Record<string, any> = {}
-
-      if (search) {
-        queryObj.$or = [
-          { name: { $regex: search, $options: 'i' } },
-          { brand: { $regex: search, $options: 'i' } },
-          { description: { $regex: search, $options: 'i' } },
-        ]
+      // Relevance is only defined for a search
+      const sort = parseSort(req.query.sort, searching ? '-score' : '-createdAt')
+      if (sort.field === 'score' && !searching) {
+        res.status(400).json({
+          success: false,
+          error: 'Sorting by score requires a search term',
+        })
+        return
       }
 
-      if (category) {
-        queryObj.category = category
+      // A cursor implies cursor mode; offset mode stays the default for existing clients
+      const cursorMode = req.query.paginate === 'cursor' || req.query.cursor !== undefined
+      const cursorQuery = cursorMode ? buildCursorQuery(sort, limit, req.query.cursor as string | undefined) : null
+
+      // One pass returns the page, the total and facet counts over every matching product
+      const facetCounts = (field: string): PipelineStage.FacetPipelineStage[] => [
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: FACET_LIMIT },
+        { $project: { _id: 0, value: '$_id', count: 1 } },
+      ]
+
+      const [result] = await Product.aggregate([
+        { $match: queryObj },
+        ...(searching ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+        {
+          $facet: {
+            data: cursorQuery
+              ? [...(cursorQuery.filter ? [{ $match: cursorQuery.filter }] : []), { $sort: cursorQuery.sort }, { $limit: cursorQuery.fetchLimit }]
+              : [{ $sort: toMongoSort(sort) }, { $skip: skip }, { $limit: limit }],
+            // Cursor pages skip the total, which costs a scan of every match
+            ...(!cursorQuery && { total: [{ $count: 'count' }] }),
+            categories: facetCounts('category'),
+            brands: facetCounts('brand'),
+            certifications: [{ $unwind: '$certifications' }, ...facetCounts('certifications')],
+          },
+        },
+      ])
+
+      const facets = {
+        categories: result.categories,
+        brands: result.brands,
+        certifications: result.certifications,
       }
 
-      const products = await Product.find(queryObj)
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit)
-        .lean()
+      if (cursorQuery) {
+        const { data, pageInfo } = buildCursorPage(result.data, sort, limit, cursorQuery)
+        res.json({
+          success: true,
+          count: data.length,
+          pageInfo,
+          data,
+          facets,
+        })
+        return
+      }
 
-      const total = await Product.countDocuments(queryObj)
+      const products = result.data
+      const total = result.total[0]?.count ?? 0
       const totalPages = Math.ceil(total / limit)
 
       res.json({
@@ -65,8 +296,16 @@ router.get(
         page,
         totalPages,
         data: products,
+        facets,
       })
     } catch (error) {
+      if (error instanceof PaginationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Get products error:', error)
       res.status(500).json({
         success: false,
@@ -76,12 +315,58 @@ router.get(
   }
 )
 
+// @desc    Export products matching the list filters as CSV, JSON or NDJSON
+// @route   GET /api/products/export
+// @access  Private (product:read)
+router.get(
+  '/export',
+  [
+    protect,
+    requirePermission('product:read'),
+    query('format').optional().isIn(EXPORT_FORMATS).withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+    ...productFilterRules,
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        })
+        return
+      }
+
+      const cursor = Product.find(buildProductFilter(req)).sort(productSort(req)).lean().cursor({ batchSize: 500 })
+
+      await streamExport(res, cursor, {
+        format: (req.query.format as ExportFormat) || 'csv',
+        filename: 'products',
+        columns: PRODUCT_EXPORT_COLUMNS,
+        toRow: ({ _id, __v, ...product }: any) => ({ id: _id, ...product }),
+      })
+    } catch (error) {
+      console.error('Export products error:', error)
+      // Once streaming has started the status is sent; cut the response so it is visibly incomplete
+      if (res.headersSent) {
+        res.destroy()
+        return
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Server error exporting products',
+      })
+    }
+  }
+)
+
 // @desc    Get single product
 // @route   GET /api/products/:id
-// @access  Private
-router.get('/:id', protect, async (req: Request, res: Response): Promise<void> => {
+// @access  Private (product:read)
+router.get('/:id', protect, requirePermission('product:read'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const product = await Product.findById(req.params.id)
+    const product = await Product.findOne({ _id: req.params.id, ...getTenantFilter(req.user) })
 
     if (!product) {
       res.status(404).json({
@@ -106,36 +391,16 @@ router.get('/:id', protect, async (req: Request, res: Response): Promise<void> =
 
 // @desc    Create new product
 // @route   POST /api/products
-// @access  Private
+// @access  Private (product:write)
 router.post(
   '/',
   [
     protect,
-    body('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters'),
-    body('category')
-      .isIn(['Skincare', 'Food & Beverage', 'Personal Care', 'Cleaning Products', 'Clothing', 'Electronics', 'Other'])
-      .withMessage('Invalid category'),
-    body('brand').trim().isLength({ min: 1, max: 100 }).withMessage('Brand must be between 1 and 100 characters'),
-    body('ingredients').isArray({ min: 1 }).withMessage('At least one ingredient is required'),
-    body('ingredients.*')
-      .trim()
-      .isLength({ min: 1, max: 100 })
-      .withMessage('Each ingredient must be between 1 and 100 characters'),
-    body('description').optional().trim().isLength({ max: 1000 }).withMessage('Description cannot exceed 1000 characters'),
-    body('certifications').optional().isArray().withMessage('Certifications must be an array'),
-    body('certifications.*')
-      .optional()
-      .trim()
-      .isLength({ max: 100 })
-      .withMessage('Each certification cannot exceed 100 characters'),
-    body('packaging').optional().trim().isLength({ max: 200 }).withMessage('Packaging description cannot exceed 200 characters'),
-    body('sustainability')
-      .optional()
-      .trim()
-      .isLength({ max: 500 })
-      .withMessage('Sustainability description cannot exceed 500 characters'),
+    requirePermission('product:write'),
+    ...productCreateRules,
+    body('organizationId').optional().isMongoId().withMessage('Invalid organization ID'),
   ],
-  async (req: Request, res: Response): Promise<void> => {
+  async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req)
       if (!errors.isEmpty()) {
@@ -147,7 +412,22 @@ router.post(
         return
       }
 
-      const product = await Product.create(req.body)
+      const organizationId = await resolveTargetOrganization(req)
+      if (!organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'Organization not found',
+        })
+        return
+      }
+
+      const { resolvedIngredients, unresolvedIngredients, ...fields } = req.body
+      const product = await Product.create({
+        ...fields,
+        ...(await resolveIngredients(fields.ingredients)),
+        organizationId,
+        createdBy: req.user._id,
+      })
       res.status(201).json({
         success: true,
         data: product,
@@ -162,17 +442,96 @@ router.post(
   }
 )
 
+// @desc    Import products from a CSV or JSON file
+// @route   POST /api/products/import
+// @access  Private (product:write)
+router.post(
+  '/import',
+  [
+    protect,
+    requirePermission('product:write'),
+    uploadImportFile,
+    body('dryRun').optional().isBoolean().withMessage('dryRun must be a boolean'),
+    body('organizationId').optional().isMongoId().withMessage('Invalid organization ID'),
+    body('mapping')
+      .optional()
+      .custom(value => {
+        const mapping = typeof value === 'string' ? JSON.parse(value) : value
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) throw new Error()
+        return Object.values(mapping).every(field => PRODUCT_IMPORT_FIELDS.includes(field as ProductImportField))
+      })
+      .withMessage(`Mapping must be a JSON object of column names to one of: ${PRODUCT_IMPORT_FIELDS.join(', ')}`),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        })
+        return
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Upload a .csv or .json file in the "file" field',
+        })
+        return
+      }
+
+      const organizationId = await resolveTargetOrganization(req)
+      if (!organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'Organization not found',
+        })
+        return
+      }
+
+      const dryRun = String(req.body.dryRun ?? req.query.dryRun) === 'true'
+      const mapping = typeof req.body.mapping === 'string' ? JSON.parse(req.body.mapping) : req.body.mapping
+      const records = parseImportFile(req.file)
+
+      const result = await importProducts(records, {
+        mapping,
+        defaults: { organizationId, createdBy: req.user._id },
+        dryRun,
+        validateRow: validateImportRow,
+      })
+
+      res.status(dryRun || result.inserted === 0 ? 200 : 201).json({ success: true, ...result })
+    } catch (error) {
+      if (error instanceof ProductImportError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Import products error:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Server error importing products',
+      })
+    }
+  }
+)
+
 // @desc    Update product
 // @route   PUT /api/products/:id
-// @access  Private
+// @access  Private (product:write)
 router.put(
   '/:id',
   [
     protect,
+    requirePermission('product:write'),
     body('name').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters'),
     body('category')
       .optional()
-      .isIn(['Skincare', 'Food & Beverage', 'Personal Care', 'Cleaning Products', 'Clothing', 'Electronics', 'Other'])
+      .isIn(PRODUCT_CATEGORIES)
       .withMessage('Invalid category'),
     body('brand').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Brand must be between 1 and 100 characters'),
     body('ingredients').optional().isArray({ min: 1 }).withMessage('At least one ingredient is required'),
@@ -194,8 +553,9 @@ router.put(
       .trim()
       .isLength({ max: 500 })
       .withMessage('Sustainability description cannot exceed 500 characters'),
+    body('organizationId').optional().isMongoId().withMessage('Invalid organization ID'),
   ],
-  async (req: Request, res: Response): Promise<void> => {
+  async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req)
       if (!errors.isEmpty()) {
@@ -207,7 +567,38 @@ router.put(
         return
       }
 
-      const product = await Product.findByIdAndUpdate(req.params.id, req.body, {
+      const { organizationId: requestedOrganizationId, createdBy, resolvedIngredients, unresolvedIngredients, ...updates } = req.body
+      const tenantFilter = getTenantFilter(req.user)
+      const existing = await Product.findOne({ _id: req.params.id, ...tenantFilter }).select('organizationId')
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Product not found',
+        })
+        return
+      }
+
+      // Admins can move a product between organizations; its reports follow it
+      let organizationId = existing.organizationId
+      if (requestedOrganizationId && req.user.role === 'admin') {
+        const target = await resolveTargetOrganization(req)
+        if (!target) {
+          res.status(404).json({
+            success: false,
+            error: 'Organization not found',
+          })
+          return
+        }
+        organizationId = target
+        updates.organizationId = target
+      }
+
+      if (updates.ingredients) {
+        Object.assign(updates, await resolveIngredients(updates.ingredients))
+      }
+
+      const product = await Product.findOneAndUpdate({ _id: existing._id, ...tenantFilter }, updates, {
         new: true,
         runValidators: true,
       })
@@ -220,6 +611,10 @@ router.put(
         return
       }
 
+      if (organizationId?.toString() !== existing.organizationId?.toString()) {
+        await Report.updateMany({ productId: product._id }, { $set: { organizationId } })
+      }
+
       res.json({
         success: true,
         data: product,
@@ -236,10 +631,10 @@ router.put(
 
 // @desc    Delete product
 // @route   DELETE /api/products/:id
-// @access  Private
-router.delete('/:id', protect, async (req: Request, res: Response): Promise<void> => {
+// @access  Private (product:delete)
+router.delete('/:id', protect, requirePermission('product:delete'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const product = await Product.findByIdAndDelete(req.params.id)
+    const product = await Product.findOneAndDelete({ _id: req.params.id, ...getTenantFilter(req.user) })
 
     if (!product) {
       res.status(404).json({
@@ -249,6 +644,8 @@ router.delete('/:id', protect, async (req: Request, res: Response): Promise<void
       return
     }
 
+    await Question.deleteMany({ productId: product._id })
+
     res.json({
       success: true,
       message: 'Product deleted successfully',
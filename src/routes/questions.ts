@@ -0,0 +1,415 @@
+import express, { Request, Response } from 'express'
+import mongoose from 'mongoose'
+import { body, validationResult } from 'express-validator'
+import { Question, IQuestion } from '../models/Question'
+import { Product } from '../models/Product'
+import { protect, requirePermission } from '../middleware/auth'
+import { getTenantFilter } from '../services/tenancy'
+
+// Mounted under /api/products/:id/questions, so `req.params.id` is the product ID
+const router = express.Router({ mergeParams: true })
+
+const QUESTION_TYPES = ['text', 'select', 'multiselect']
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+interface AuthRequest extends Request {
+  user?: any
+}
+
+const ensureProduct = async (req: AuthRequest, res: Response) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(404).json({ success: false, error: 'Product not found' })
+    return null
+  }
+
+  // Products outside the caller's organization are reported as missing
+  const product = await Product.findOne({ _id: req.params.id, ...getTenantFilter(req.user) })
+  if (!product) {
+    res.status(404).json({ success: false, error: 'Product not found' })
+    return null
+  }
+  return product
+}
+
+// Accepts either the Question model shape or the looser shapes the AI service emits
+// (plain strings, or objects with `question`/`text`, `type` and `required`).
+const toQuestionInput = (raw: any, order: number) => {
+  if (typeof raw === 'string') {
+    return { questionText: raw.trim(), questionType: 'text', options: [], isRequired: false, order }
+  }
+
+  const questionText = String(raw?.questionText ?? raw?.question ?? raw?.text ?? '').trim()
+  const type = raw?.questionType ?? raw?.type
+  const questionType = QUESTION_TYPES.includes(type) ? type : 'text'
+  const options = Array.isArray(raw?.options) ? raw.options.map((o: any) => String(o).trim()).filter(Boolean) : []
+
+  return {
+    questionText,
+    questionType,
+    options: questionType === 'text' ? [] : options,
+    isRequired: Boolean(raw?.isRequired ?? raw?.required ?? false),
+    order,
+  }
+}
+
+const questionRules = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name))
+  return [
+    field('questionText').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Question text must be between 1 and 500 characters'),
+    body('questionType').optional().isIn(QUESTION_TYPES).withMessage('Invalid question type'),
+    body('options').optional().isArray().withMessage('Options must be an array'),
+    body('options.*').optional().isString().trim().isLength({ min: 1, max: 200 }).withMessage('Each option must be between 1 and 200 characters'),
+    body('isRequired').optional().isBoolean().withMessage('isRequired must be a boolean'),
+    body('order').optional().isInt({ min: 0 }).withMessage('Order must be a non-negative integer'),
+  ]
+}
+
+const checkOptions = (questionType: string, options: string[] | undefined) => {
+  if (questionType !== 'text' && (!options || options.length === 0)) {
+    return `Questions of type '${questionType}' require at least one option`
+  }
+  return null
+}
+
+// Normalizes a submitted answer against the question type; returns an error message on mismatch
+const normalizeAnswer = (question: IQuestion, value: any): { answer?: string; error?: string } => {
+  if (value === null || value === undefined) return { answer: '' }
+
+  if (question.questionType === 'multiselect') {
+    const values: string[] = (Array.isArray(value) ? value : [value]).map((v: any) => String(v).trim()).filter(Boolean)
+    const invalid = values.filter(v => !(question.options || []).includes(v))
+    if (invalid.length > 0) return { error: `Invalid option(s): ${invalid.join(', ')}` }
+    return { answer: values.join(', ') }
+  }
+
+  if (Array.isArray(value) || typeof value === 'object') {
+    return { error: 'Answer must be a string' }
+  }
+
+  const answer = String(value).trim()
+  if (question.questionType === 'select' && answer && !(question.options || []).includes(answer)) {
+    return { error: `Invalid option: ${answer}` }
+  }
+  return { answer }
+}
+
+// @desc    Get questions for a product
+// @route   GET /api/products/:id/questions
+// @access  Private (product:read)
+router.get('/', protect, requirePermission('product:read'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await ensureProduct(req, res)
+    if (!product) return
+
+    const questions = await Question.find({ productId: product._id }).sort({ order: 1 })
+
+    res.json({
+      success: true,
+      count: questions.length,
+      data: questions,
+    })
+  } catch (error) {
+    console.error('Get questions error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching questions' })
+  }
+})
+
+// @desc    Add a question to a product
+// @route   POST /api/products/:id/questions
+// @access  Private (product:write)
+router.post('/', [protect, requirePermission('product:write'), ...questionRules(false)], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const product = await ensureProduct(req, res)
+    if (!product) return
+
+    const count = await Question.countDocuments({ productId: product._id })
+    const input = toQuestionInput(req.body, count)
+    if (req.body.order !== undefined) input.order = Math.min(parseInt(req.body.order), count)
+
+    const optionsError = checkOptions(input.questionType, input.options)
+    if (optionsError) {
+      res.status(400).json({ success: false, error: optionsError })
+      return
+    }
+
+    // Make room for the new question when it is inserted before the end
+    if (input.order < count) {
+      await Question.updateMany({ productId: product._id, order: { $gte: input.order } }, { $inc: { order: 1 } })
+    }
+
+    const question = await Question.create({ ...input, productId: product._id })
+
+    res.status(201).json({ success: true, data: question })
+  } catch (error) {
+    console.error('Create question error:', error)
+    res.status(500).json({ success: false, error: 'Server error creating question' })
+  }
+})
+
+// @desc    Save a batch of (AI-generated) questions for a product
+// @route   POST /api/products/:id/questions/bulk
+// @access  Private (product:write)
+router.post(
+  '/bulk',
+  [
+    protect,
+    requirePermission('product:write'),
+    body('questions').isArray({ min: 1, max: 100 }).withMessage('Questions must be an array of 1 to 100 items'),
+    body('replace').optional().isBoolean().withMessage('replace must be a boolean'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const product = await ensureProduct(req, res)
+      if (!product) return
+
+      const replace = req.body.replace === true || req.body.replace === 'true'
+      const offset = replace ? 0 : await Question.countDocuments({ productId: product._id })
+
+      const inputs = (req.body.questions as any[]).map((raw, index) => toQuestionInput(raw, offset + index))
+      const invalid = inputs
+        .map((input, index) => {
+          if (!input.questionText) return { index, error: 'Question text is required' }
+          if (input.questionText.length > 500) return { index, error: 'Question text cannot exceed 500 characters' }
+          const optionsError = checkOptions(input.questionType, input.options)
+          return optionsError ? { index, error: optionsError } : null
+        })
+        .filter(Boolean)
+
+      if (invalid.length > 0) {
+        res.status(400).json({ success: false, error: 'Validation failed', details: invalid })
+        return
+      }
+
+      if (replace) {
+        await Question.deleteMany({ productId: product._id })
+      }
+
+      const questions = await Question.insertMany(inputs.map(input => ({ ...input, productId: product._id })))
+
+      res.status(201).json({
+        success: true,
+        count: questions.length,
+        data: questions,
+      })
+    } catch (error) {
+      console.error('Bulk create questions error:', error)
+      res.status(500).json({ success: false, error: 'Server error saving questions' })
+    }
+  }
+)
+
+// @desc    Reorder a product's questions
+// @route   PUT /api/products/:id/questions/reorder
+// @access  Private (product:write)
+router.put(
+  '/reorder',
+  [
+    protect,
+    requirePermission('product:write'),
+    body('order').isArray({ min: 1 }).withMessage('Order must be a non-empty array of question IDs'),
+    body('order.*').isMongoId().withMessage('Each entry must be a valid question ID'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const product = await ensureProduct(req, res)
+      if (!product) return
+
+      const ids: string[] = req.body.order
+      const existing = await Question.find({ productId: product._id }).select('_id')
+      const existingIds = new Set(existing.map(q => q._id.toString()))
+
+      if (new Set(ids).size !== ids.length || ids.length !== existingIds.size || !ids.every(id => existingIds.has(id))) {
+        res.status(400).json({
+          success: false,
+          error: 'Order must list every question of this product exactly once',
+        })
+        return
+      }
+
+      await Question.bulkWrite(
+        ids.map((id, index) => ({
+          updateOne: { filter: { _id: id, productId: product._id }, update: { $set: { order: index } } },
+        }))
+      )
+
+      const questions = await Question.find({ productId: product._id }).sort({ order: 1 })
+
+      res.json({ success: true, count: questions.length, data: questions })
+    } catch (error) {
+      console.error('Reorder questions error:', error)
+      res.status(500).json({ success: false, error: 'Server error reordering questions' })
+    }
+  }
+)
+
+// @desc    Submit answers for a product's questions
+// @route   POST /api/products/:id/questions/answers
+// @access  Private (report:write)
+router.post(
+  '/answers',
+  [protect, requirePermission('report:write'), body('answers').isObject().withMessage('Answers must be an object keyed by question ID')],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const product = await ensureProduct(req, res)
+      if (!product) return
+
+      const answers: Record<string, any> = req.body.answers
+      const questions = await Question.find({ productId: product._id }).sort({ order: 1 })
+      const byId = new Map(questions.map(q => [q._id.toString(), q]))
+
+      const details: { questionId: string; error: string }[] = []
+      const updates = new Map<string, string>()
+
+      for (const [questionId, value] of Object.entries(answers)) {
+        const question = byId.get(questionId)
+        if (!question) {
+          details.push({ questionId, error: 'Question does not belong to this product' })
+          continue
+        }
+        const { answer, error } = normalizeAnswer(question, value)
+        if (error) {
+          details.push({ questionId, error })
+        } else if (answer !== undefined && answer.length > 1000) {
+          details.push({ questionId, error: 'Answer cannot exceed 1000 characters' })
+        } else {
+          updates.set(questionId, answer ?? '')
+        }
+      }
+
+      // Required questions must end up answered, either by this submission or a previous one
+      for (const question of questions) {
+        if (!question.isRequired) continue
+        const id = question._id.toString()
+        const finalAnswer = updates.has(id) ? updates.get(id) : question.answer
+        if (!finalAnswer) {
+          details.push({ questionId: id, error: `Required question not answered: ${question.questionText}` })
+        }
+      }
+
+      if (details.length > 0) {
+        res.status(400).json({ success: false, error: 'Validation failed', details })
+        return
+      }
+
+      if (updates.size > 0) {
+        await Question.bulkWrite(
+          Array.from(updates.entries()).map(([id, answer]) => ({
+            updateOne: { filter: { _id: id }, update: answer ? { $set: { answer } } : { $unset: { answer: 1 } } },
+          }))
+        )
+      }
+
+      const updated = await Question.find({ productId: product._id }).sort({ order: 1 })
+
+      res.json({ success: true, count: updated.length, data: updated })
+    } catch (error) {
+      console.error('Submit answers error:', error)
+      res.status(500).json({ success: false, error: 'Server error submitting answers' })
+    }
+  }
+)
+
+// @desc    Update a question
+// @route   PUT /api/products/:id/questions/:questionId
+// @access  Private (product:write)
+router.put(
+  '/:questionId',
+  [protect, requirePermission('product:write'), ...questionRules(true)],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const product = await ensureProduct(req, res)
+      if (!product) return
+
+      const question = mongoose.isValidObjectId(req.params.questionId)
+        ? await Question.findOne({ _id: req.params.questionId, productId: product._id })
+        : null
+      if (!question) {
+        res.status(404).json({ success: false, error: 'Question not found' })
+        return
+      }
+
+      const { questionText, questionType, options, isRequired } = req.body
+      if (questionText !== undefined) question.questionText = questionText
+      if (questionType !== undefined) question.questionType = questionType
+      if (options !== undefined) question.options = options
+      if (isRequired !== undefined) question.isRequired = isRequired === true || isRequired === 'true'
+      if (question.questionType === 'text') question.options = []
+
+      const optionsError = checkOptions(question.questionType, question.options)
+      if (optionsError) {
+        res.status(400).json({ success: false, error: optionsError })
+        return
+      }
+
+      // Move the question and shift the ones in between so orders stay contiguous
+      if (req.body.order !== undefined) {
+        const count = await Question.countDocuments({ productId: product._id })
+        const from = question.order
+        const to = Math.min(parseInt(req.body.order), count - 1)
+        if (to < from) {
+          await Question.updateMany({ productId: product._id, order: { $gte: to, $lt: from } }, { $inc: { order: 1 } })
+        } else if (to > from) {
+          await Question.updateMany({ productId: product._id, order: { $gt: from, $lte: to } }, { $inc: { order: -1 } })
+        }
+        question.order = to
+      }
+
+      await question.save()
+
+      res.json({ success: true, data: question })
+    } catch (error) {
+      console.error('Update question error:', error)
+      res.status(500).json({ success: false, error: 'Server error updating question' })
+    }
+  }
+)
+
+// @desc    Delete a question
+// @route   DELETE /api/products/:id/questions/:questionId
+// @access  Private (product:write)
+router.delete('/:questionId', protect, requirePermission('product:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await ensureProduct(req, res)
+    if (!product) return
+
+    const question = mongoose.isValidObjectId(req.params.questionId)
+      ? await Question.findOneAndDelete({ _id: req.params.questionId, productId: product._id })
+      : null
+    if (!question) {
+      res.status(404).json({ success: false, error: 'Question not found' })
+      return
+    }
+
+    // Close the gap so orders stay contiguous
+    await Question.updateMany({ productId: product._id, order: { $gt: question.order } }, { $inc: { order: -1 } })
+
+    res.json({ success: true, message: 'Question deleted successfully' })
+  } catch (error) {
+    console.error('Delete question error:', error)
+    res.status(500).json({ success: false, error: 'Server error deleting question' })
+  }
+})
+
+export { router as questionRoutes }
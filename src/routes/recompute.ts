@@ -0,0 +1,132 @@
+import express, { Request, Response } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { ScoreRecomputeRun } from '../models/ScoreRecomputeRun'
+import { PRODUCT_CATEGORIES } from '../models/Product'
+import { protect, authorize } from '../middleware/auth'
+import { isRecomputeRunActive, parseRangeEnd, runScoreRecompute } from '../services/scoreRecompute'
+
+const router = express.Router()
+
+// Every recompute route is admin-only
+router.use(protect, authorize('admin'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+const startInBackground = (runId: string) => {
+  runScoreRecompute(runId).catch(error => {
+    console.error(`❌ Score recompute run ${runId} failed:`, (error as Error).message)
+  })
+}
+
+// @desc    Start a score recompute for a filtered set of reports
+// @route   POST /api/admin/recompute
+// @access  Private/Admin
+router.post(
+  '/',
+  [
+    body('category').optional().isIn(PRODUCT_CATEGORIES).withMessage('Invalid category'),
+    body('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    body('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+    body('status').optional().isIn(['draft', 'pending', 'completed', 'failed']).withMessage('Invalid status'),
+    body('dryRun').optional().isBoolean().withMessage('dryRun must be a boolean'),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const { category, from, to, status } = req.body
+      const run = await ScoreRecomputeRun.create({
+        filter: { category, from, to: to === undefined ? undefined : parseRangeEnd(String(to)), status },
+        dryRun: req.body.dryRun === true || req.body.dryRun === 'true',
+        source: 'api',
+        startedBy: req.user._id,
+      })
+
+      startInBackground(run._id.toString())
+
+      res.status(202).json({ success: true, data: run })
+    } catch (error) {
+      console.error('Start recompute error:', error)
+      res.status(500).json({ success: false, error: 'Server error starting score recompute' })
+    }
+  }
+)
+
+// @desc    List recent recompute runs
+// @route   GET /api/admin/recompute
+// @access  Private/Admin
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const runs = await ScoreRecomputeRun.find().select('-diffs').sort({ createdAt: -1 }).limit(50)
+
+    res.json({ success: true, count: runs.length, data: runs })
+  } catch (error) {
+    console.error('Get recompute runs error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching recompute runs' })
+  }
+})
+
+// @desc    Get a recompute run's progress and score diff
+// @route   GET /api/admin/recompute/:id
+// @access  Private/Admin
+router.get('/:id', [param('id').isMongoId().withMessage('Invalid run ID')], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const run = await ScoreRecomputeRun.findById(req.params.id)
+    if (!run) {
+      res.status(404).json({ success: false, error: 'Recompute run not found' })
+      return
+    }
+
+    res.json({ success: true, data: run, active: isRecomputeRunActive(run._id.toString()) })
+  } catch (error) {
+    console.error('Get recompute run error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching recompute run' })
+  }
+})
+
+// @desc    Resume a failed or interrupted recompute run from its checkpoint
+// @route   POST /api/admin/recompute/:id/resume
+// @access  Private/Admin
+router.post('/:id/resume', [param('id').isMongoId().withMessage('Invalid run ID')], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const run = await ScoreRecomputeRun.findById(req.params.id)
+    if (!run) {
+      res.status(404).json({ success: false, error: 'Recompute run not found' })
+      return
+    }
+
+    if (run.status === 'completed') {
+      res.status(409).json({ success: false, error: 'Recompute run has already completed' })
+      return
+    }
+
+    if (isRecomputeRunActive(run._id.toString())) {
+      res.status(409).json({ success: false, error: 'Recompute run is already in progress' })
+      return
+    }
+
+    startInBackground(run._id.toString())
+
+    res.status(202).json({ success: true, data: run })
+  } catch (error) {
+    console.error('Resume recompute error:', error)
+    res.status(500).json({ success: false, error: 'Server error resuming score recompute' })
+  }
+})
+
+export { router as recomputeRoutes }
@@ -1,12 +1,22 @@
-import express, { Request, Response } from 'express'
-import { body, query, validationResult } from 'express-validator'
-import { Report } from '../models/Report'
+import express, { NextFunction, Request, Response } from 'express'
+import { body, query, validationResult, ValidationChain } from 'express-validator'
+import { Report, IReport } from '../models/Report'
+import { IApiKey } from '../models/ApiKey'
 import { Product } from '../models/Product'
-import { protect } from '../middleware/auth'
-import axios from 'axios'
+import { ReportJob } from '../models/ReportJob'
+import { protect, requirePermission } from '../middleware/auth'
+import { getReportPdf, getReportPdfUrl, removeCachedReportPdfs } from '../services/reportPdf'
+import { enqueueReportJob, retryReportJob } from '../services/reportWorker'
+import { ReportEvent, subscribeToReport } from '../services/reportEvents'
+import { createStreamTicket, consumeStreamTicket } from '../services/streamTickets'
+import { AuthTokenError } from '../services/tokens'
+import { explainScoreBreakdown, getActiveRubric } from '../services/scoring'
+import { recomputeReportScore } from '../services/scoreRecompute'
+import { getTenantFilter } from '../services/tenancy'
+import { EXPORT_FORMATS, ExportFormat, streamExport } from '../utils/exportStream'
+import { buildCursorPage, buildCursorQuery, PAGINATION_MODES, PaginationError, parseSort, sortOptions, toMongoSort } from '../utils/pagination'
 
 const router = express.Router()
-const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:8000'
 
 /* ============================================================
    🧠 Utility: Error Formatter
@@ -26,16 +36,107 @@ const sendValidationErrors = (req: Request, res: Response) => {
 
 interface AuthRequest extends Request {
   user?: any
+  apiKey?: IApiKey
 }
 
 /* ============================================================
-   📊 GET /api/reports/stats/overview — Reports Statistics (user scoped)
+   🔐 Utility: Access — reports are shared within their organization; admins see every organization
 ============================================================ */
-router.get('/stats/overview', protect, async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.user?._id
+const canAccessReport = (user: any, report: IReport) =>
+  !!user && (user.role === 'admin' || report.organizationId?.toString() === user.organizationId?.toString())
+
+const reportScope = (req: AuthRequest): Record<string, any> => {
+  if (!req.user) return {}
+  return getTenantFilter(req.user, req.query.organizationId)
+}
 
-    const matchStage = userId ? { $match: { userId } } : { $match: {} }
+/* ============================================================
+   🔎 Utility: Filters — shared by the list and export routes
+============================================================ */
+const reportFilterRules: ValidationChain[] = [
+  query('status').optional().isIn(['draft', 'pending', 'completed', 'failed']),
+  query('minScore').optional().isInt({ min: 0, max: 100 }),
+  query('maxScore').optional().isInt({ min: 0, max: 100 }),
+  query('organizationId').optional().isMongoId(),
+  query('userId').optional().isMongoId(),
+]
+
+const REPORT_SORT_FIELDS = ['createdAt', 'updatedAt', 'transparencyScore'] as const
+
+const buildReportFilter = (req: AuthRequest): Record<string, any> => {
+  const { status, minScore, maxScore } = req.query
+
+  // Scope reports to the requesting user's organization, optionally to one creator
+  const filter: any = reportScope(req)
+  if (req.query.userId) filter.userId = req.query.userId
+  if (status) filter.status = status
+  if (minScore || maxScore) {
+    filter.transparencyScore = {}
+    if (minScore) filter.transparencyScore.$gte = parseInt(minScore as string)
+    if (maxScore) filter.transparencyScore.$lte = parseInt(maxScore as string)
+  }
+  return filter
+}
+
+/* ============================================================
+   📤 Utility: Export rows — one flat row per report with its product
+============================================================ */
+const REPORT_EXPORT_COLUMNS = [
+  'id',
+  'status',
+  'transparencyScore',
+  'summary',
+  'analysisSource',
+  'strengths',
+  'improvements',
+  'recommendations',
+  'productId',
+  'productName',
+  'productBrand',
+  'productCategory',
+  'productIngredients',
+  'productCertifications',
+  'organizationId',
+  'userId',
+  'approvedBy',
+  'approvedAt',
+  'createdAt',
+  'updatedAt',
+]
+
+const flattenReport = (report: any): Record<string, unknown> => {
+  const product = report.productId && typeof report.productId === 'object' && 'name' in report.productId ? report.productId : null
+  return {
+    id: report._id,
+    status: report.status,
+    transparencyScore: report.transparencyScore,
+    summary: report.summary,
+    analysisSource: report.analysisSource,
+    strengths: report.analysis?.strengths ?? [],
+    improvements: report.analysis?.improvements ?? [],
+    recommendations: report.analysis?.recommendations ?? [],
+    // A deleted product leaves only the ID behind
+    productId: product ? product._id : report.productId,
+    productName: product?.name,
+    productBrand: product?.brand,
+    productCategory: product?.category,
+    productIngredients: product?.ingredients ?? [],
+    productCertifications: product?.certifications ?? [],
+    organizationId: report.organizationId,
+    userId: report.userId,
+    approvedBy: report.approvedBy,
+    approvedAt: report.approvedAt,
+    createdAt: report.createdAt,
+    updatedAt: report.updatedAt,
+  }
+}
+
+/* ============================================================
+   📊 GET /api/reports/stats/overview — Reports Statistics (organization scoped)
+============================================================ */
+router.get('/stats/overview', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const matchStage = { $match: reportScope(req) }
 
     const stats = await Report.aggregate([
       matchStage,
@@ -49,6 +150,7 @@ router.get('/stats/overview', protect, async (req: AuthRequest, res: Response) =
           completedReports: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
           pendingReports: { $sum: { $cond: [{ $eq: ['$status', 'pending'] }, 1, 0] } },
           draftReports: { $sum: { $cond: [{ $eq: ['$status', 'draft'] }, 1, 0] } },
+          failedReports: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
         },
       },
     ])
@@ -77,6 +179,7 @@ router.get('/stats/overview', protect, async (req: AuthRequest, res: Response) =
             completedReports: 0,
             pendingReports: 0,
             draftReports: 0,
+            failedReports: 0,
           },
         scoreDistribution,
       },
@@ -94,11 +197,13 @@ router.get(
   '/',
   [
     protect,
+    requirePermission('report:read'),
     query('page').optional().isInt({ min: 1 }),
     query('limit').optional().isInt({ min: 1, max: 100 }),
-    query('status').optional().isIn(['draft', 'pending', 'completed']),
-    query('minScore').optional().isInt({ min: 0, max: 100 }),
-    query('maxScore').optional().isInt({ min: 0, max: 100 }),
+    query('paginate').optional().isIn(PAGINATION_MODES),
+    query('cursor').optional().isString().isLength({ max: 1000 }),
+    query('sort').optional().isIn(sortOptions(REPORT_SORT_FIELDS)),
+    ...reportFilterRules,
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
     if (sendValidationErrors(req, res)) return
@@ -107,22 +212,27 @@ router.get(
       const page = parseInt(req.query.page as string) || 1
       const limit = parseInt(req.query.limit as string) || 10
       const skip = (page - 1) * limit
-      const { status, minScore, maxScore } = req.query
-
-      const filter: any = {}
-      // Scope reports to requesting user
-      if (req.user && req.user._id) filter.userId = req.user._id
-      if (status) filter.status = status
-      if (minScore || maxScore) {
-        filter.transparencyScore = {}
-        if (minScore) filter.transparencyScore.$gte = parseInt(minScore as string)
-        if (maxScore) filter.transparencyScore.$lte = parseInt(maxScore as string)
+      const filter = buildReportFilter(req)
+      const sort = parseSort(req.query.sort, '-createdAt')
+
+      // Cursor mode: keyset on the sort field and _id, no skip and no count
+      if (req.query.paginate === 'cursor' || req.query.cursor !== undefined) {
+        const cursorQuery = buildCursorQuery(sort, limit, req.query.cursor as string | undefined)
+        const rows = await Report.find(cursorQuery.filter ? { $and: [filter, cursorQuery.filter] } : filter)
+          .populate('productId', 'name brand category')
+          .sort(cursorQuery.sort)
+          .limit(cursorQuery.fetchLimit)
+          .lean()
+
+        const { data, pageInfo } = buildCursorPage(rows, sort, limit, cursorQuery)
+        res.json({ success: true, count: data.length, pageInfo, data })
+        return
       }
 
       const [reports, total] = await Promise.all([
         Report.find(filter)
           .populate('productId', 'name brand category')
-          .sort({ createdAt: -1 })
+          .sort(toMongoSort(sort))
           .skip(skip)
           .limit(limit)
           .lean(),
@@ -138,16 +248,59 @@ router.get(
         data: reports,
       })
     } catch (error) {
+      if (error instanceof PaginationError) {
+        res.status(400).json({ success: false, error: error.message })
+        return
+      }
       console.error('Get reports error:', error)
       res.status(500).json({ success: false, error: 'Server error fetching reports' })
     }
   }
 )
 
+/* ============================================================
+   📤 GET /api/reports/export — Export Reports (CSV, JSON, NDJSON)
+============================================================ */
+router.get(
+  '/export',
+  [
+    protect,
+    requirePermission('report:read'),
+    query('format').optional().isIn(EXPORT_FORMATS).withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+    ...reportFilterRules,
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const cursor = Report.find(buildReportFilter(req))
+        .select('-answers -scoreBreakdown')
+        .populate('productId', 'name brand category ingredients certifications')
+        .sort({ createdAt: -1 })
+        .lean()
+        .cursor({ batchSize: 500 })
+
+      await streamExport(res, cursor, {
+        format: (req.query.format as ExportFormat) || 'csv',
+        filename: 'reports',
+        columns: REPORT_EXPORT_COLUMNS,
+        toRow: flattenReport,
+      })
+    } catch (error) {
+      console.error('Export reports error:', error)
+      if (res.headersSent) {
+        res.destroy()
+        return
+      }
+      res.status(500).json({ success: false, error: 'Server error exporting reports' })
+    }
+  }
+)
+
 /* ============================================================
    📄 GET /api/reports/:id — Get Single Report
 ============================================================ */
-router.get('/:id', protect, async (req: AuthRequest, res: Response): Promise<void> => {
+router.get('/:id', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const report = await Report.findById(req.params.id).populate(
       'productId',
@@ -159,8 +312,8 @@ router.get('/:id', protect, async (req: AuthRequest, res: Response): Promise<voi
       return
     }
 
-    // ownership check — only owner or admin can view
-    if (req.user && report.userId && report.userId.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    // access check — organization members or admin can view
+    if (!canAccessReport(req.user, report)) {
       res.status(403).json({ success: false, error: 'Forbidden' })
       return
     }
@@ -173,12 +326,227 @@ router.get('/:id', protect, async (req: AuthRequest, res: Response): Promise<voi
 })
 
 /* ============================================================
-   🧾 POST /api/reports — Create New Report
+   🧮 GET /api/reports/:id/score-breakdown — Explain Transparency Score
+============================================================ */
+router.get('/:id/score-breakdown', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).select('userId organizationId status transparencyScore scoreBreakdown')
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    if (!report.scoreBreakdown) {
+      res.status(404).json({ success: false, error: 'Score breakdown is not available for this report' })
+      return
+    }
+
+    const breakdown = report.toObject().scoreBreakdown!
+    const explanations = explainScoreBreakdown(breakdown)
+    if (report.transparencyScore !== breakdown.total) {
+      explanations.push({
+        component: 'total',
+        points: report.transparencyScore,
+        explanation: `The score was manually changed from ${breakdown.total} to ${report.transparencyScore} after it was calculated.`,
+      })
+    }
+
+    res.json({
+      success: true,
+      data: {
+        transparencyScore: report.transparencyScore,
+        scoreCategory: (report as any).scoreCategory,
+        breakdown,
+        explanations,
+      },
+    })
+  } catch (error) {
+    console.error('Get score breakdown error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching score breakdown' })
+  }
+})
+
+/* ============================================================
+   🎫 POST /api/reports/:id/events/ticket — Ticket for the SSE stream
+============================================================ */
+router.post('/:id/events/ticket', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).select('userId organizationId')
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check — same rules as GET /api/reports/:id
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    res.status(201).json({ success: true, data: await createStreamTicket(req.user, report._id, req.apiKey) })
+  } catch (error) {
+    console.error('Create stream ticket error:', error)
+    res.status(500).json({ success: false, error: 'Server error creating stream ticket' })
+  }
+})
+
+/* ============================================================
+   📡 GET /api/reports/:id/events — Live Generation Progress (SSE)
+============================================================ */
+// EventSource cannot send headers, so this route also accepts a single-use ?ticket= from the route below
+const streamAuth = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (typeof req.query.ticket !== 'string') return protect(req, res, next)
+
+  try {
+    // Restoring the key makes requirePermission apply its scopes, as for a header-authenticated request
+    const { user, apiKey } = await consumeStreamTicket(req.query.ticket, req.params.id)
+    req.user = user
+    req.apiKey = apiKey
+    next()
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: error instanceof AuthTokenError ? error.message : 'Not authorized, stream ticket failed',
+    })
+  }
+}
+
+const SSE_HEARTBEAT_MS = 25000
+
+router.get('/:id/events', streamAuth, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).select('userId organizationId status')
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check — same rules as GET /api/reports/:id
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    // no-transform keeps the compression middleware from buffering the stream
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+    res.flushHeaders()
+
+    let closed = false
+    const send = (event: Partial<ReportEvent>) => {
+      if (!closed) res.write(`data: ${JSON.stringify(event)}\n\n`)
+    }
+
+    // Subscribe before reading the current state so no stage change is missed in between
+    const reportId = report._id.toString()
+    const unsubscribe = subscribeToReport(reportId, event => {
+      send(event)
+      if (event.stage === 'saved' || event.stage === 'failed') close()
+    })
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(': ping\n\n')
+    }, SSE_HEARTBEAT_MS)
+
+    function close() {
+      if (closed) return
+      closed = true
+      clearInterval(heartbeat)
+      unsubscribe()
+      res.end()
+    }
+    req.on('close', close)
+
+    // Replay the current state so late subscribers still get a terminal event
+    const current = await Report.findById(reportId).populate('productId', 'name brand category ingredients description')
+    if (!current) {
+      send({ reportId, stage: 'failed', at: new Date().toISOString(), message: 'Report was deleted' })
+      close()
+      return
+    }
+
+    if (current.status === 'completed') {
+      send({ reportId, stage: 'saved', at: current.updatedAt.toISOString(), data: current.toJSON() })
+      close()
+    } else if (current.status === 'failed') {
+      const job = await ReportJob.findOne({ reportId }).sort({ createdAt: -1 })
+      send({ reportId, stage: 'failed', at: current.updatedAt.toISOString(), message: job?.lastError })
+      close()
+    } else {
+      const job = await ReportJob.findOne({ reportId }).sort({ createdAt: -1 })
+      send({ reportId, stage: job?.status === 'running' ? 'calling_ai' : 'queued', at: new Date().toISOString() })
+    }
+  } catch (error) {
+    console.error('Report events error:', error)
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Server error streaming report events' })
+    } else {
+      res.end()
+    }
+  }
+})
+
+/* ============================================================
+   🖨️ GET /api/reports/:id/pdf — Download Report as PDF
+============================================================ */
+router.get('/:id/pdf', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).populate(
+      'productId',
+      'name brand category ingredients description certifications packaging sustainability updatedAt'
+    )
+
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check — organization members or admin can download
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    // Pending and failed reports have no score or analysis to render yet
+    if (report.status !== 'completed') {
+      res.status(409).json({ success: false, error: `Only completed reports can be downloaded (report is ${report.status})` })
+      return
+    }
+
+    const filePath = await getReportPdf(report)
+
+    // Record the cached file's URL without touching updatedAt, which keys the cache
+    const pdfUrl = getReportPdfUrl(report)
+    if (report.pdfUrl !== pdfUrl) {
+      await Report.updateOne({ _id: report._id }, { $set: { pdfUrl } }, { timestamps: false })
+    }
+
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `inline; filename="transparency-report-${report._id}.pdf"`)
+    res.sendFile(filePath)
+  } catch (error) {
+    console.error('Get report PDF error:', error)
+    res.status(500).json({ success: false, error: 'Server error generating report PDF' })
+  }
+})
+
+/* ============================================================
+   🧾 POST /api/reports — Create New Report (queued for analysis)
 ============================================================ */
 router.post(
   '/',
   [
     protect,
+    requirePermission('report:write'),
     body('productId').isMongoId().withMessage('Valid product ID is required'),
     body('answers').isObject().withMessage('Answers must be an object'),
   ],
@@ -187,93 +555,25 @@ router.post(
 
     try {
       const { productId, answers } = req.body
-      const product = await Product.findById(productId)
+      const product = await Product.findOne({ _id: productId, ...getTenantFilter(req.user) })
       if (!product) {
         res.status(404).json({ success: false, error: 'Product not found' })
         return
       }
 
-      // 🔗 Call AI microservice
-      let aiAnalysis
-      try {
-        const aiResponse = await axios.post(`${AI_SERVICE_URL}/api/ai/analyze-product`, {
-          product: product.toObject(),
-          answers,
-        })
-        aiAnalysis = aiResponse.data
-      } catch (aiError) {
-        console.warn('⚠️ AI service unavailable, using fallback.')
-        aiAnalysis = {
-          summary: `Analysis for ${product.name}: This product shows basic transparency with room for improvement.`,
-          transparencyScore: Math.floor(Math.random() * 40) + 40,
-          analysis: {
-            strengths: ['Product information provided', 'Basic ingredient list available'],
-            improvements: ['Add sustainability data', 'Include certification details'],
-            recommendations: ['Provide sourcing details', 'Add eco-impact information'],
-          },
-        }
-      }
-
-      // Compute a dynamic transparencyScore using AI analysis, answers completeness, and product category
-      const deriveTransparencyScore = (aiResult: any, productObj: any, answersObj: any) => {
-        // base score from AI if provided, otherwise fallback to previous random-ish baseline
-        const baseFromAI = Number(aiResult?.transparencyScore ?? aiResult?.score)
-        const base = Number.isFinite(baseFromAI) ? Math.max(0, Math.min(100, Math.round(baseFromAI))) : Math.floor(Math.random() * 40) + 40
-
-        // determine number of questions the AI expected/asked (if available)
-        const aiQuestionsCount = Array.isArray(aiResult?.questions) ? aiResult.questions.length : (Array.isArray(aiResult?.expectedQuestions) ? aiResult.expectedQuestions.length : null)
-
-        // fallback: use number of answer keys provided by the frontend
-        const providedAnswersCount = answersObj && typeof answersObj === 'object' ? Object.keys(answersObj).length : 0
-
-        const questionCount = aiQuestionsCount ?? Math.max(1, providedAnswersCount)
-        const answeredCount = providedAnswersCount
-
-        const completenessRatio = questionCount > 0 ? Math.min(1, answeredCount / questionCount) : 0
-
-        // category sensitivity: certain categories are expected to have more detailed disclosures
-        const category = (productObj?.category || '').toString().toLowerCase()
-        let categoryBoost = 0
-        if (category.includes('skincare')) categoryBoost = 5
-        else if (category.includes('food')) categoryBoost = 4
-        else if (category.includes('personal') || category.includes('care')) categoryBoost = 3
-        else if (category.includes('cleaning')) categoryBoost = 3
-        else if (category.includes('clothing') || category.includes('apparel')) categoryBoost = 2
-        else if (category.includes('electronics')) categoryBoost = 1
-
-        // Combine base AI score with completeness and category bonus.
-        // Weighting: 60% AI base (if present), 40% completeness-derived, plus categoryBoost when completeness is reasonable.
-        const completenessPercent = Math.round(completenessRatio * 100)
-        let computed = Math.round((base * 0.6) + (completenessPercent * 0.4))
-
-        // apply small category-based bump if the user provided meaningful answers
-        if (completenessRatio >= 0.5) {
-          computed += categoryBoost
-        } else {
-          // small penalty if very incomplete
-          computed -= Math.max(0, Math.floor((1 - completenessRatio) * 5))
-        }
-
-        // clamp to 0-100
-        computed = Math.max(0, Math.min(100, computed))
-        return computed
-      }
-
-      const computedScore = deriveTransparencyScore(aiAnalysis, product.toObject(), answers)
-
+      // The analysis runs in the background; clients poll GET /api/reports/:id/job
       const report = await Report.create({
         productId,
         userId: req.user?._id,
-        summary: aiAnalysis.summary,
-        transparencyScore: computedScore,
-        analysis: aiAnalysis.analysis,
+        organizationId: product.organizationId,
         answers,
-        status: 'completed',
+        status: 'pending',
       })
+      const job = await enqueueReportJob(report)
 
       await report.populate('productId', 'name brand category ingredients description')
 
-      res.status(201).json({ success: true, data: report })
+      res.status(202).json({ success: true, data: report, job })
     } catch (error) {
       console.error('Create report error:', error)
       res.status(500).json({ success: false, error: 'Server error creating report' })
@@ -281,16 +581,124 @@ router.post(
   }
 )
 
+/* ============================================================
+   ⏳ GET /api/reports/:id/job — Report Generation Job Status
+============================================================ */
+router.get('/:id/job', protect, requirePermission('report:read'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).select('userId organizationId status')
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    const job = await ReportJob.findOne({ reportId: report._id }).sort({ createdAt: -1 })
+    if (!job) {
+      res.status(404).json({ success: false, error: 'No generation job found for this report' })
+      return
+    }
+
+    res.json({ success: true, data: job, reportStatus: report.status })
+  } catch (error) {
+    console.error('Get report job error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching report job' })
+  }
+})
+
+/* ============================================================
+   🔁 POST /api/reports/:id/job/retry — Retry Failed Generation
+============================================================ */
+router.post('/:id/job/retry', protect, requirePermission('report:write'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id).select('userId organizationId status')
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    const job = await ReportJob.findOne({ reportId: report._id }).sort({ createdAt: -1 })
+    if (!job) {
+      res.status(404).json({ success: false, error: 'No generation job found for this report' })
+      return
+    }
+
+    if (job.status !== 'failed') {
+      res.status(409).json({ success: false, error: `Only failed jobs can be retried (job is ${job.status})` })
+      return
+    }
+
+    const requeued = await retryReportJob(job)
+    if (!requeued) {
+      res.status(409).json({ success: false, error: 'Job is no longer failed' })
+      return
+    }
+
+    res.status(202).json({ success: true, data: requeued })
+  } catch (error) {
+    console.error('Retry report job error:', error)
+    res.status(500).json({ success: false, error: 'Server error retrying report job' })
+  }
+})
+
+/* ============================================================
+   ✅ POST /api/reports/:id/approve — Approve a Completed Report
+============================================================ */
+router.post('/:id/approve', protect, requirePermission('report:approve'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await Report.findById(req.params.id)
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Report not found' })
+      return
+    }
+
+    // access check
+    if (!canAccessReport(req.user, report)) {
+      res.status(403).json({ success: false, error: 'Forbidden' })
+      return
+    }
+
+    if (report.status !== 'completed') {
+      res.status(409).json({ success: false, error: 'Only completed reports can be approved' })
+      return
+    }
+
+    report.approvedBy = req.user._id
+    report.approvedAt = new Date()
+    await report.save()
+    await report.populate('approvedBy', 'name email')
+
+    res.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Approve report error:', error)
+    res.status(500).json({ success: false, error: 'Server error approving report' })
+  }
+})
+
 /* ============================================================
    ✏️ PUT /api/reports/:id — Update Report
 ============================================================ */
+const REPORT_EDITABLE_FIELDS = ['summary', 'transparencyScore', 'status', 'answers'] as const
+
 router.put(
   '/:id',
   [
     protect,
-    body('summary').optional().isLength({ max: 2000 }),
-    body('transparencyScore').optional().isInt({ min: 0, max: 100 }),
-    body('status').optional().isIn(['draft', 'pending', 'completed']),
+    requirePermission('report:write'),
+    body('summary').optional().isString().trim().isLength({ max: 2000 }),
+    body('transparencyScore').optional().isInt({ min: 0, max: 100 }).toInt(),
+    body('status').optional().isIn(['draft', 'pending', 'completed', 'failed']),
     body('answers').optional().isObject(),
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
@@ -303,13 +711,32 @@ router.put(
         return
       }
 
-      // ownership check
-      if (req.user && report.userId && report.userId.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+      // access check
+      if (!canAccessReport(req.user, report)) {
         res.status(403).json({ success: false, error: 'Forbidden' })
         return
       }
 
-      Object.assign(report, req.body)
+      // Product, ownership, tenant and approval are not editable here
+      for (const field of REPORT_EDITABLE_FIELDS) {
+        if (req.body[field] !== undefined) report.set(field, req.body[field])
+      }
+      // New answers change completeness, so the breakdown is rescored; a score sent with them is kept as a manual override
+      if (report.isModified('answers') && report.scoreBreakdown) {
+        const product = await Product.findById(report.productId)
+        if (product) {
+          const breakdown = recomputeReportScore(report, product, await getActiveRubric(product.category))
+          report.scoreBreakdown = breakdown
+          if (req.body.transparencyScore === undefined) report.transparencyScore = breakdown.total
+        } else {
+          report.scoreBreakdown = undefined
+        }
+      }
+      // Any change invalidates an earlier approval
+      if (report.isModified()) {
+        report.approvedBy = undefined
+        report.approvedAt = undefined
+      }
       await report.save()
       await report.populate('productId', 'name brand category')
 
@@ -324,7 +751,7 @@ router.put(
 /* ============================================================
    🗑️ DELETE /api/reports/:id — Delete Report
 ============================================================ */
-router.delete('/:id', protect, async (req: AuthRequest, res: Response): Promise<void> => {
+router.delete('/:id', protect, requirePermission('report:delete'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const report = await Report.findById(req.params.id)
     if (!report) {
@@ -332,13 +759,15 @@ router.delete('/:id', protect, async (req: AuthRequest, res: Response): Promise<
       return
     }
 
-    // ownership check
-    if (req.user && report.userId && report.userId.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    // access check
+    if (!canAccessReport(req.user, report)) {
       res.status(403).json({ success: false, error: 'Forbidden' })
       return
     }
 
     await report.deleteOne()
+    await ReportJob.deleteMany({ reportId: report._id })
+    await removeCachedReportPdfs(report._id.toString())
     res.json({ success: true, message: 'Report deleted successfully' })
   } catch (error) {
     console.error('Delete report error:', error)
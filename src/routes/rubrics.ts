@@ -0,0 +1,193 @@
+import express, { Request, Response } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { IScoringRubric, ScoringRubric } from '../models/ScoringRubric'
+import { PRODUCT_CATEGORIES } from '../models/Product'
+import { protect, authorize } from '../middleware/auth'
+import { getActiveRubric } from '../services/scoring'
+
+const router = express.Router()
+
+// Every rubric route is admin-only
+router.use(protect, authorize('admin'))
+
+const sendValidationErrors = (req: Request, res: Response) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    })
+    return true
+  }
+  return false
+}
+
+// Concurrent publishes can pick the same next version number; the loser retries with a fresh one
+const MAX_PUBLISH_ATTEMPTS = 3
+
+const isDuplicateKey = (error: any) => error?.code === 11000
+
+/**
+ * Makes the rubric its category's active version. The partial unique index rejects a second
+ * active rubric, so a concurrent activation makes this return false instead of leaving two;
+ * the previously active version is restored if the switch fails part-way.
+ */
+const activateRubric = async (rubric: IScoringRubric): Promise<boolean> => {
+  const previous = await ScoringRubric.findOneAndUpdate(
+    { category: rubric.category, isActive: true, _id: { $ne: rubric._id } },
+    { $set: { isActive: false } }
+  )
+  try {
+    await ScoringRubric.updateOne({ _id: rubric._id }, { $set: { isActive: true } })
+  } catch (error) {
+    if (previous) {
+      await ScoringRubric.updateOne({ _id: previous._id, isActive: false }, { $set: { isActive: true } }).catch(() => undefined)
+    }
+    if (isDuplicateKey(error)) return false
+    throw error
+  }
+  rubric.isActive = true
+  return true
+}
+
+const ACTIVATION_CONFLICT = 'Another rubric version was activated at the same time; reload the versions and try again'
+
+const categoryParam = param('category').isIn(PRODUCT_CATEGORIES).withMessage('Invalid category')
+
+// @desc    Get the active rubric for every category
+// @route   GET /api/admin/rubrics
+// @access  Private/Admin
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rubrics = await Promise.all(PRODUCT_CATEGORIES.map(category => getActiveRubric(category)))
+
+    res.json({
+      success: true,
+      count: rubrics.length,
+      data: rubrics.map(rubric => ({ ...rubric, isDefault: rubric.version === 0 })),
+    })
+  } catch (error) {
+    console.error('Get rubrics error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching scoring rubrics' })
+  }
+})
+
+// @desc    Get every version of a category's rubric
+// @route   GET /api/admin/rubrics/:category/versions
+// @access  Private/Admin
+router.get('/:category/versions', [categoryParam], async (req: Request, res: Response): Promise<void> => {
+  if (sendValidationErrors(req, res)) return
+
+  try {
+    const versions = await ScoringRubric.find({ category: req.params.category })
+      .sort({ version: -1 })
+      .populate('createdBy', 'name email')
+
+    res.json({ success: true, count: versions.length, data: versions })
+  } catch (error) {
+    console.error('Get rubric versions error:', error)
+    res.status(500).json({ success: false, error: 'Server error fetching rubric versions' })
+  }
+})
+
+// @desc    Publish a new rubric version for a category and make it active
+// @route   POST /api/admin/rubrics/:category
+// @access  Private/Admin
+router.post(
+  '/:category',
+  [
+    categoryParam,
+    body('weights.ai').optional().isFloat({ min: 0, max: 1 }).withMessage('AI weight must be between 0 and 1'),
+    body('weights.completeness').optional().isFloat({ min: 0, max: 1 }).withMessage('Completeness weight must be between 0 and 1'),
+    body('completenessThreshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Completeness threshold must be between 0 and 1'),
+    body('categoryBonus').optional().isFloat({ min: 0, max: 20 }).withMessage('Category bonus must be between 0 and 20'),
+    body('maxIncompletenessPenalty').optional().isFloat({ min: 0, max: 20 }).withMessage('Penalty must be between 0 and 20'),
+    body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  ],
+  async (req: any, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const category = req.params.category
+      // Omitted fields carry over from the rubric currently in effect
+      const current = await getActiveRubric(category)
+
+      let rubric: IScoringRubric | undefined
+      for (let attempt = 1; !rubric; attempt++) {
+        const latest = await ScoringRubric.findOne({ category }).sort({ version: -1 }).select('version')
+        const candidate = new ScoringRubric({
+          category,
+          version: (latest?.version ?? 0) + 1,
+          weights: {
+            ai: req.body.weights?.ai ?? current.weights.ai,
+            completeness: req.body.weights?.completeness ?? current.weights.completeness,
+          },
+          completenessThreshold: req.body.completenessThreshold ?? current.completenessThreshold,
+          categoryBonus: req.body.categoryBonus ?? current.categoryBonus,
+          maxIncompletenessPenalty: req.body.maxIncompletenessPenalty ?? current.maxIncompletenessPenalty,
+          notes: req.body.notes,
+          createdBy: req.user._id,
+          isActive: false,
+        })
+        // Saved inactive first so a validation failure leaves the current version active
+        try {
+          await candidate.save()
+          rubric = candidate
+        } catch (error) {
+          if (!isDuplicateKey(error) || attempt >= MAX_PUBLISH_ATTEMPTS) throw error
+        }
+      }
+
+      if (!(await activateRubric(rubric))) {
+        res.status(409).json({ success: false, error: `Version ${rubric.version} was saved but not activated. ${ACTIVATION_CONFLICT}` })
+        return
+      }
+
+      res.status(201).json({ success: true, data: rubric })
+    } catch (error: any) {
+      if (error.name === 'ValidationError') {
+        res.status(400).json({ success: false, error: error.message })
+        return
+      }
+      if (isDuplicateKey(error)) {
+        res.status(409).json({ success: false, error: 'Another rubric version is being published for this category; try again' })
+        return
+      }
+      console.error('Create rubric error:', error)
+      res.status(500).json({ success: false, error: 'Server error creating scoring rubric' })
+    }
+  }
+)
+
+// @desc    Re-activate an earlier rubric version
+// @route   POST /api/admin/rubrics/:category/versions/:version/activate
+// @access  Private/Admin
+router.post(
+  '/:category/versions/:version/activate',
+  [categoryParam, param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer')],
+  async (req: Request, res: Response): Promise<void> => {
+    if (sendValidationErrors(req, res)) return
+
+    try {
+      const { category } = req.params
+      const rubric = await ScoringRubric.findOne({ category, version: parseInt(req.params.version) })
+      if (!rubric) {
+        res.status(404).json({ success: false, error: 'Rubric version not found' })
+        return
+      }
+
+      if (!(await activateRubric(rubric))) {
+        res.status(409).json({ success: false, error: ACTIVATION_CONFLICT })
+        return
+      }
+
+      res.json({ success: true, data: rubric })
+    } catch (error) {
+      console.error('Activate rubric error:', error)
+      res.status(500).json({ success: false, error: 'Server error activating scoring rubric' })
+    }
+  }
+)
+
+export { router as rubricRoutes }
@@ -0,0 +1,46 @@
+// Assigns products created before organizations existed to the organization of the
+// reports written about them. Run once after deploying tenancy, before non-admins
+// need to see those products:
+//
+//   npm run backfill:product-orgs -- [--dry-run]
+//
+// Products nobody has reported on stay unassigned and are only visible to admins. List them
+// with GET /api/admin/organizations/unassigned-products and assign them with
+// POST /api/admin/organizations/:id/products. Safe to run again; assigned products are skipped.
+
+import dotenv from 'dotenv'
+import fs from 'fs'
+import path from 'path'
+import mongoose from 'mongoose'
+import { backfillProductOrganizations } from '../services/tenancy'
+
+const envLocalPath = path.resolve(__dirname, '../../env.local')
+dotenv.config(fs.existsSync(envLocalPath) ? { path: envLocalPath } : undefined)
+
+const main = async () => {
+  const args = process.argv.slice(2)
+  const unknown = args.find(arg => arg !== '--dry-run')
+  if (unknown) throw new Error(`Unrecognized argument: ${unknown}`)
+  const dryRun = args.includes('--dry-run')
+
+  const mongoURI = process.env.MONGODB_URI
+  if (!mongoURI) throw new Error('MONGODB_URI is not set')
+  await mongoose.connect(mongoURI)
+
+  console.log(`▶️  Backfilling product organizations${dryRun ? ' (dry run)' : ''}`)
+  const result = await backfillProductOrganizations({ dryRun })
+
+  console.log(`✅ ${result.assigned} assigned (${result.shared} reported on by several organizations), ${result.unassigned} left unassigned`)
+  if (result.unassigned > 0) {
+    console.log('ℹ️  Assign the rest with POST /api/admin/organizations/:id/products')
+  }
+  if (dryRun) console.log('ℹ️  Dry run: no products or users were modified')
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async error => {
+    console.error('❌ Product backfill failed:', (error as Error).message)
+    await mongoose.disconnect().catch(() => undefined)
+    process.exit(1)
+  })
@@ -0,0 +1,85 @@
+// Recomputes stored transparency scores with the current scoring rubrics.
+//
+//   npm run recompute:scores -- [--category=Skincare] [--from=2024-01-01] [--to=2024-12-31]
+//                               [--status=completed] [--dry-run]
+//   npm run recompute:scores -- --resume=<runId>
+//
+// Progress is checkpointed in MongoDB, so an interrupted run can be resumed with --resume,
+// from this CLI or through POST /api/admin/recompute/:id/resume.
+
+import dotenv from 'dotenv'
+import fs from 'fs'
+import path from 'path'
+import mongoose from 'mongoose'
+import { PRODUCT_CATEGORIES } from '../models/Product'
+import { ScoreRecomputeRun } from '../models/ScoreRecomputeRun'
+import { parseRangeEnd, runScoreRecompute } from '../services/scoreRecompute'
+
+const envLocalPath = path.resolve(__dirname, '../../env.local')
+dotenv.config(fs.existsSync(envLocalPath) ? { path: envLocalPath } : undefined)
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string | true> = {}
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)(?:=(.*))?$/)
+    if (!match) throw new Error(`Unrecognized argument: ${arg}`)
+    args[match[1]] = match[2] ?? true
+  }
+  return args
+}
+
+const parseDate = (value: string | true | undefined, name: string, parse = (text: string) => new Date(text)) => {
+  if (value === undefined) return undefined
+  const date = parse(String(value))
+  if (value === true || Number.isNaN(date.getTime())) throw new Error(`--${name} must be a valid date`)
+  return date
+}
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2))
+
+  const mongoURI = process.env.MONGODB_URI
+  if (!mongoURI) throw new Error('MONGODB_URI is not set')
+  await mongoose.connect(mongoURI)
+
+  let runId: string
+  if (args.resume) {
+    runId = String(args.resume)
+    console.log(`▶️  Resuming recompute run ${runId}`)
+  } else {
+    const category = args.category === undefined ? undefined : String(args.category)
+    if (category && !(PRODUCT_CATEGORIES as readonly string[]).includes(category)) {
+      throw new Error(`--category must be one of: ${PRODUCT_CATEGORIES.join(', ')}`)
+    }
+    const status = args.status === undefined ? undefined : String(args.status)
+
+    const run = await ScoreRecomputeRun.create({
+      filter: { category, from: parseDate(args.from, 'from'), to: parseDate(args.to, 'to', parseRangeEnd), status },
+      dryRun: args['dry-run'] === true,
+      source: 'cli',
+    })
+    runId = run._id.toString()
+    console.log(`▶️  Started recompute run ${runId}${run.dryRun ? ' (dry run)' : ''}`)
+  }
+
+  const run = await runScoreRecompute(runId, progress => {
+    console.log(`   ${progress.processed}/${progress.total} processed, ${progress.changed} changed, ${progress.failed} failed`)
+  })
+
+  console.log(`✅ Run ${runId} ${run.status}: ${run.processed} processed, ${run.changed} changed, ${run.failed} failed`)
+  for (const diff of run.diffs) {
+    console.log(`   report ${diff.reportId}: ${diff.before} → ${diff.after} (rubric v${diff.rubricVersionBefore ?? 0} → v${diff.rubricVersionAfter})`)
+  }
+  if (run.changed > run.diffs.length) {
+    console.log(`   … ${run.changed - run.diffs.length} more changes not listed`)
+  }
+  if (run.dryRun) console.log('ℹ️  Dry run: no reports were modified')
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async error => {
+    console.error('❌ Score recompute failed:', (error as Error).message)
+    await mongoose.disconnect().catch(() => undefined)
+    process.exit(1)
+  })
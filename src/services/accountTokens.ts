@@ -0,0 +1,118 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { AccountToken, AccountTokenPurpose } from '../models/AccountToken'
+import { IUser } from '../models/User'
+import { buildAppUrl, sendMail } from './mailer'
+import { AuthTokenError } from './tokens'
+
+const DEFAULT_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 48 * 60,
+}
+
+const TTL_ENV: Record<AccountTokenPurpose, string> = {
+  password_reset: 'PASSWORD_RESET_EXPIRE_MINUTES',
+  email_verification: 'EMAIL_VERIFICATION_EXPIRE_MINUTES',
+}
+
+const getTtlMinutes = (purpose: AccountTokenPurpose) => {
+  const minutes = parseInt(process.env[TTL_ENV[purpose]] || '', 10)
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES[purpose]
+}
+
+const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET
+  if (!secret) throw new Error('JWT_SECRET is not set')
+  return secret
+}
+
+// The audience keeps these tokens from being accepted as access tokens, or for the other purpose
+const audienceFor = (purpose: AccountTokenPurpose) => `account:${purpose}`
+
+export const invalidateAccountTokens = async (userId: mongoose.Types.ObjectId, purpose?: AccountTokenPurpose) => {
+  await AccountToken.updateMany(
+    { userId, usedAt: null, invalidatedAt: null, ...(purpose && { purpose }) },
+    { $set: { invalidatedAt: new Date() } }
+  )
+}
+
+/**
+ * Issues a signed, expiring token for an emailed link. Earlier unused tokens for the
+ * same purpose stop working, so only the latest email's link is valid.
+ */
+export const createAccountToken = async (user: IUser, purpose: AccountTokenPurpose): Promise<string> => {
+  await invalidateAccountTokens(user._id, purpose)
+
+  const ttlMinutes = getTtlMinutes(purpose)
+  const jti = crypto.randomUUID()
+  await AccountToken.create({
+    jti,
+    userId: user._id,
+    purpose,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  })
+
+  return jwt.sign({ sub: user._id.toString(), jti }, getJwtSecret(), {
+    audience: audienceFor(purpose),
+    expiresIn: ttlMinutes * 60,
+  })
+}
+
+/**
+ * Verifies a token's signature, expiry and purpose and marks it used. Returns the ID of
+ * the user it was issued to.
+ */
+export const consumeAccountToken = async (token: string, purpose: AccountTokenPurpose): Promise<string> => {
+  let payload: jwt.JwtPayload
+  try {
+    payload = jwt.verify(token, getJwtSecret(), { audience: audienceFor(purpose) }) as jwt.JwtPayload
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) throw new AuthTokenError('Token has expired', 'expired')
+    throw new AuthTokenError('Invalid token', 'invalid')
+  }
+
+  const record = await AccountToken.findOneAndUpdate(
+    { jti: payload.jti, userId: payload.sub, purpose, usedAt: null, invalidatedAt: null },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  )
+  if (!record) throw new AuthTokenError('Token has already been used or is no longer valid', 'revoked')
+
+  return record.userId.toString()
+}
+
+export const sendPasswordResetEmail = async (user: IUser) => {
+  const token = await createAccountToken(user, 'password_reset')
+  const resetUrl = buildAppUrl('/reset-password', { token })
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your VeriScope AI password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Reset your password: ${resetUrl}`,
+      '',
+      `This link expires in ${getTtlMinutes('password_reset')} minutes and can be used once.`,
+      "If you didn't ask for a password reset, you can ignore this email.",
+    ].join('\n'),
+  })
+}
+
+export const sendVerificationEmail = async (user: IUser) => {
+  const token = await createAccountToken(user, 'email_verification')
+  const verifyUrl = buildAppUrl('/verify-email', { token })
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email for VeriScope AI',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Confirm your email address: ${verifyUrl}`,
+      '',
+      `This link expires in ${Math.round(getTtlMinutes('email_verification') / 60)} hours.`,
+    ].join('\n'),
+  })
+}
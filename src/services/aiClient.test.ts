@@ -0,0 +1,179 @@
+import axios from 'axios'
+import { AIClient, AIClientConfig, AIServiceError, getFallbackReason } from './aiClient'
+
+jest.mock('axios', () => ({ __esModule: true, default: { post: jest.fn() } }))
+
+const mockedPost = axios.post as jest.Mock
+
+const CONFIG: AIClientConfig = {
+  baseUrl: 'http://ai.internal:8000',
+  timeoutMs: 1000,
+  retries: 2,
+  retryDelayMs: 0,
+  failureThreshold: 2,
+  resetTimeoutMs: 30000,
+}
+
+const PRODUCT = { name: 'Cream', category: 'Skincare', ingredients: ['Aqua'] }
+const QUESTIONS = { questions: [{ questionText: 'Where is it made?' }] }
+
+const axiosError = (fields: Record<string, unknown>) => Object.assign(new Error(String(fields.message ?? 'Request failed')), { isAxiosError: true, ...fields })
+const refused = () => axiosError({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED 10.0.0.5:8000' })
+const timedOut = () => axiosError({ code: 'ECONNABORTED', message: 'timeout of 1000ms exceeded' })
+const status = (code: number) => axiosError({ response: { status: code } })
+
+const expectServiceError = async (promise: Promise<unknown>, kind: string) => {
+  const error = await promise.then(
+    () => null,
+    (caught: unknown) => caught
+  )
+  expect(error).toBeInstanceOf(AIServiceError)
+  expect((error as AIServiceError).kind).toBe(kind)
+}
+
+describe('AIClient', () => {
+  let client: AIClient
+  let now: number
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    now = Date.UTC(2024, 0, 1)
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    client = new AIClient(CONFIG)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('requests', () => {
+    it('posts to the service and returns the validated payload', async () => {
+      mockedPost.mockResolvedValue({ data: { ...QUESTIONS, extra: 'dropped' } })
+
+      await expect(client.generateQuestions(PRODUCT)).resolves.toEqual({
+        questions: [{ questionText: 'Where is it made?', questionType: 'text', isRequired: false }],
+      })
+      expect(mockedPost).toHaveBeenCalledWith('http://ai.internal:8000/api/ai/generate-questions', { productData: PRODUCT }, { timeout: 1000 })
+    })
+
+    it('rejects an invalid payload without retrying', async () => {
+      mockedPost.mockResolvedValue({ data: { questions: 'none' } })
+
+      await expectServiceError(client.generateQuestions(PRODUCT), 'invalid_response')
+      expect(mockedPost).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('retries', () => {
+    it('retries transient failures and returns the first success', async () => {
+      mockedPost.mockRejectedValueOnce(refused()).mockRejectedValueOnce(status(503)).mockResolvedValueOnce({ data: QUESTIONS })
+
+      await expect(client.generateQuestions(PRODUCT)).resolves.toBeDefined()
+      expect(mockedPost).toHaveBeenCalledTimes(3)
+      expect(client.getStatus().circuit.consecutiveFailures).toBe(0)
+    })
+
+    it('gives up after the configured retries with the last error', async () => {
+      mockedPost.mockRejectedValueOnce(refused()).mockRejectedValueOnce(refused()).mockRejectedValueOnce(timedOut())
+
+      await expectServiceError(client.generateQuestions(PRODUCT), 'timeout')
+      expect(mockedPost).toHaveBeenCalledTimes(3)
+    })
+
+    it('retries rate limiting', async () => {
+      mockedPost.mockRejectedValueOnce(status(429)).mockResolvedValueOnce({ data: QUESTIONS })
+
+      await expect(client.generateQuestions(PRODUCT)).resolves.toBeDefined()
+      expect(mockedPost).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not retry client errors or count them against the circuit', async () => {
+      mockedPost.mockRejectedValue(status(422))
+
+      await expectServiceError(client.generateQuestions(PRODUCT), 'http')
+      await expectServiceError(client.generateQuestions(PRODUCT), 'http')
+      expect(mockedPost).toHaveBeenCalledTimes(2)
+      expect(client.getStatus().circuit.state).toBe('closed')
+    })
+  })
+
+  describe('circuit breaker', () => {
+    // Each failed call makes retries + 1 attempts and counts as one failure
+    const failCall = async () => {
+      mockedPost.mockRejectedValue(refused())
+      await expectServiceError(client.generateQuestions(PRODUCT), 'network')
+    }
+
+    it('opens after the failure threshold and stops calling the service', async () => {
+      await failCall()
+      expect(client.getStatus().circuit.state).toBe('closed')
+      await failCall()
+      expect(client.getStatus().circuit).toMatchObject({ state: 'open', consecutiveFailures: 2 })
+
+      mockedPost.mockClear()
+      await expectServiceError(client.generateQuestions(PRODUCT), 'circuit_open')
+      expect(mockedPost).not.toHaveBeenCalled()
+    })
+
+    it('reports when the next attempt is allowed', async () => {
+      await failCall()
+      await failCall()
+
+      expect(client.getStatus().circuit).toMatchObject({
+        openedAt: new Date(now).toISOString(),
+        nextAttemptAt: new Date(now + CONFIG.resetTimeoutMs).toISOString(),
+      })
+    })
+
+    it('half-opens after the reset timeout and closes on a successful trial', async () => {
+      await failCall()
+      await failCall()
+      now += CONFIG.resetTimeoutMs
+      expect(client.getStatus().circuit.state).toBe('half-open')
+
+      mockedPost.mockReset().mockResolvedValue({ data: QUESTIONS })
+      await expect(client.generateQuestions(PRODUCT)).resolves.toBeDefined()
+      expect(client.getStatus().circuit).toMatchObject({ state: 'closed', consecutiveFailures: 0 })
+    })
+
+    it('reopens immediately when the trial fails', async () => {
+      await failCall()
+      await failCall()
+      now += CONFIG.resetTimeoutMs
+
+      await failCall()
+      expect(client.getStatus().circuit).toMatchObject({ state: 'open', openedAt: new Date(now).toISOString() })
+    })
+
+    it('lets only one trial through while half-open', async () => {
+      await failCall()
+      await failCall()
+      now += CONFIG.resetTimeoutMs
+
+      let resolveTrial: (value: unknown) => void = () => undefined
+      mockedPost.mockReset().mockReturnValue(new Promise(resolve => (resolveTrial = resolve)))
+      const trial = client.generateQuestions(PRODUCT)
+
+      await expectServiceError(client.generateQuestions(PRODUCT), 'circuit_open')
+      resolveTrial({ data: QUESTIONS })
+      await expect(trial).resolves.toBeDefined()
+      expect(mockedPost).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getFallbackReason', () => {
+    it('exposes only the error kind, never the message', async () => {
+      mockedPost.mockRejectedValue(refused())
+      const error = await client.generateQuestions(PRODUCT).catch((caught: unknown) => caught)
+
+      expect((error as Error).message).toContain('10.0.0.5:8000')
+      expect(getFallbackReason(error)).toBe('network')
+    })
+
+    it('classifies errors from outside the client as network failures', () => {
+      expect(getFallbackReason(new Error('connect ECONNREFUSED ai.internal:8000'))).toBe('network')
+      expect(getFallbackReason(new AIServiceError('AI service circuit is open', 'circuit_open'))).toBe('circuit_open')
+    })
+  })
+})
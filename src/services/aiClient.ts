@@ -0,0 +1,232 @@
+import axios, { AxiosError } from 'axios'
+import {
+  AIAnswers,
+  AIProductInput,
+  AnalyzeProductRequest,
+  AnalyzeProductResponse,
+  GenerateQuestionsRequest,
+  GenerateQuestionsResponse,
+  TransparencyScoreRequest,
+  TransparencyScoreResponse,
+} from '../types/ai'
+import { SchemaResult, validateAnalyzeProduct, validateGenerateQuestions, validateTransparencyScore } from './aiSchemas'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export type AIServiceErrorKind = 'circuit_open' | 'timeout' | 'network' | 'http' | 'invalid_response'
+
+export class AIServiceError extends Error {
+  constructor(message: string, public readonly kind: AIServiceErrorKind, public readonly status?: number) {
+    super(message)
+    this.name = 'AIServiceError'
+  }
+}
+
+export interface AIClientConfig {
+  baseUrl: string
+  timeoutMs: number
+  retries: number
+  retryDelayMs: number
+  failureThreshold: number
+  resetTimeoutMs: number
+}
+
+export interface AIClientStatus {
+  baseUrl: string
+  circuit: {
+    state: CircuitState
+    consecutiveFailures: number
+    failureThreshold: number
+    openedAt: string | null
+    nextAttemptAt: string | null
+  }
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+const loadConfig = (): AIClientConfig => ({
+  baseUrl: (process.env.AI_SERVICE_URL || 'http://localhost:8000').replace(/\/+$/, ''),
+  timeoutMs: readNumber(process.env.AI_SERVICE_TIMEOUT_MS, 10000),
+  retries: readNumber(process.env.AI_SERVICE_RETRIES, 2),
+  retryDelayMs: readNumber(process.env.AI_SERVICE_RETRY_DELAY_MS, 300),
+  failureThreshold: Math.max(1, readNumber(process.env.AI_CIRCUIT_FAILURE_THRESHOLD, 5)),
+  resetTimeoutMs: readNumber(process.env.AI_CIRCUIT_RESET_MS, 30000),
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(private readonly failureThreshold: number, private readonly resetTimeoutMs: number) {}
+
+  // After the reset timeout an open circuit lets a single trial request through
+  canRequest(): boolean {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open'
+    }
+    if (this.state === 'closed') return true
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess() {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure() {
+    this.consecutiveFailures += 1
+    this.trialInFlight = false
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`⚠️ AI service circuit opened after ${this.consecutiveFailures} consecutive failure(s)`)
+      }
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  getStatus(): AIClientStatus['circuit'] {
+    // Report half-open as soon as the reset timeout has passed, not only after the next call
+    const state =
+      this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.resetTimeoutMs
+        ? 'half-open'
+        : this.state
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt: this.openedAt && state === 'open' ? new Date(this.openedAt + this.resetTimeoutMs).toISOString() : null,
+    }
+  }
+}
+
+const toServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error
+
+  const axiosError = error as AxiosError
+  if (axiosError?.isAxiosError) {
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+      return new AIServiceError(`AI service timed out: ${axiosError.message}`, 'timeout')
+    }
+    if (axiosError.response) {
+      const status = axiosError.response.status
+      return new AIServiceError(`AI service responded with status ${status}`, 'http', status)
+    }
+    return new AIServiceError(`AI service unreachable: ${axiosError.message}`, 'network')
+  }
+
+  return new AIServiceError((error as Error)?.message || 'Unknown AI service error', 'network')
+}
+
+// The only part of a failure that is safe to show clients; messages can name the service's host and port
+export const getFallbackReason = (error: unknown): AIServiceErrorKind =>
+  error instanceof AIServiceError ? error.kind : 'network'
+
+// Client errors (other than rate limiting) will not succeed on a retry
+const isRetryable = (error: AIServiceError) =>
+  error.kind !== 'http' || error.status === undefined || error.status >= 500 || error.status === 429
+
+export class AIClient {
+  private config: AIClientConfig | null
+  private breaker: CircuitBreaker | null = null
+
+  constructor(config?: AIClientConfig) {
+    // Without explicit config, env is read on first use so dotenv has loaded by then
+    this.config = config ?? null
+  }
+
+  private get settings(): AIClientConfig {
+    if (!this.config) this.config = loadConfig()
+    return this.config
+  }
+
+  private get circuit(): CircuitBreaker {
+    if (!this.breaker) this.breaker = new CircuitBreaker(this.settings.failureThreshold, this.settings.resetTimeoutMs)
+    return this.breaker
+  }
+
+  generateQuestions(productData: AIProductInput): Promise<GenerateQuestionsResponse> {
+    return this.post<GenerateQuestionsRequest, GenerateQuestionsResponse>(
+      '/api/ai/generate-questions',
+      { productData },
+      validateGenerateQuestions
+    )
+  }
+
+  calculateTransparencyScore(productData: AIProductInput, answers: AIAnswers): Promise<TransparencyScoreResponse> {
+    return this.post<TransparencyScoreRequest, TransparencyScoreResponse>(
+      '/api/ai/transparency-score',
+      { productData, answers },
+      validateTransparencyScore
+    )
+  }
+
+  analyzeProduct(product: AIProductInput, answers: AIAnswers): Promise<AnalyzeProductResponse> {
+    return this.post<AnalyzeProductRequest, AnalyzeProductResponse>(
+      '/api/ai/analyze-product',
+      { product, answers },
+      validateAnalyzeProduct
+    )
+  }
+
+  getStatus(): AIClientStatus {
+    return { baseUrl: this.settings.baseUrl, circuit: this.circuit.getStatus() }
+  }
+
+  private async post<TRequest, TResponse>(
+    path: string,
+    payload: TRequest,
+    validate: (data: unknown) => SchemaResult<TResponse>
+  ): Promise<TResponse> {
+    const { baseUrl, timeoutMs, retries, retryDelayMs } = this.settings
+
+    if (!this.circuit.canRequest()) {
+      throw new AIServiceError('AI service circuit is open', 'circuit_open')
+    }
+
+    let lastError: AIServiceError | null = null
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) await sleep(retryDelayMs * 2 ** (attempt - 1))
+
+      try {
+        const response = await axios.post<unknown>(`${baseUrl}${path}`, payload, { timeout: timeoutMs })
+        this.circuit.recordSuccess()
+
+        // A malformed payload will not improve on retry, so it is reported straight away
+        const { value, errors } = validate(response.data)
+        if (!value) {
+          throw new AIServiceError(`AI service returned an invalid response: ${errors.slice(0, 3).join('; ')}`, 'invalid_response')
+        }
+        return value
+      } catch (error) {
+        if (error instanceof AIServiceError && error.kind === 'invalid_response') throw error
+
+        lastError = toServiceError(error)
+        if (!isRetryable(lastError)) {
+          // The service answered, so it is healthy even though it rejected this request
+          this.circuit.recordSuccess()
+          throw lastError
+        }
+      }
+    }
+
+    this.circuit.recordFailure()
+    throw lastError as AIServiceError
+  }
+}
+
+export const aiClient = new AIClient()
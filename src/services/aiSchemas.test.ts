@@ -0,0 +1,120 @@
+import { validateAnalyzeProduct, validateGenerateQuestions, validateTransparencyScore } from './aiSchemas'
+
+const ANALYSIS = {
+  summary: 'Well documented.',
+  transparencyScore: 72,
+  analysis: {
+    strengths: ['Full ingredient list'],
+    improvements: ['No certifications'],
+    recommendations: ['Get certified'],
+  },
+}
+
+describe('aiSchemas', () => {
+  describe('validateAnalyzeProduct', () => {
+    it('accepts a well-formed payload unchanged', () => {
+      expect(validateAnalyzeProduct(ANALYSIS)).toEqual({ value: ANALYSIS, errors: [] })
+    })
+
+    it('drops unknown keys at every level', () => {
+      const { value } = validateAnalyzeProduct({
+        ...ANALYSIS,
+        debug: { prompt: 'secret' },
+        analysis: { ...ANALYSIS.analysis, rawModelOutput: '...' },
+      })
+
+      expect(value).toEqual(ANALYSIS)
+    })
+
+    it('trims and truncates strings to the model limits', () => {
+      const { value } = validateAnalyzeProduct({
+        ...ANALYSIS,
+        summary: `  ${'s'.repeat(2500)}  `,
+        analysis: { ...ANALYSIS.analysis, strengths: [`  ${'b'.repeat(600)}`] },
+      })
+
+      expect(value!.summary).toBe('s'.repeat(2000))
+      expect(value!.analysis.strengths).toEqual(['b'.repeat(500)])
+    })
+
+    it('caps bullet lists and drops invalid items', () => {
+      const strengths = [42, '', null, ...Array.from({ length: 15 }, (_, index) => `Strength ${index}`)]
+      const { value } = validateAnalyzeProduct({ ...ANALYSIS, analysis: { ...ANALYSIS.analysis, strengths } })
+
+      expect(value!.analysis.strengths).toHaveLength(10)
+      expect(value!.analysis.strengths[0]).toBe('Strength 0')
+    })
+
+    it('clamps and parses numeric scores', () => {
+      expect(validateAnalyzeProduct({ ...ANALYSIS, transparencyScore: 140 }).value!.transparencyScore).toBe(100)
+      expect(validateAnalyzeProduct({ ...ANALYSIS, transparencyScore: -3 }).value!.transparencyScore).toBe(0)
+      expect(validateAnalyzeProduct({ ...ANALYSIS, transparencyScore: '64' }).value!.transparencyScore).toBe(64)
+    })
+
+    it.each([
+      ['a missing summary', { ...ANALYSIS, summary: '   ' }, 'response.summary is required'],
+      ['a mistyped summary', { ...ANALYSIS, summary: { text: 'x' } }, 'response.summary must be a string, got object'],
+      ['a missing analysis', { summary: 'x' }, 'response.analysis is required'],
+      ['a non-list bullet field', { ...ANALYSIS, analysis: { ...ANALYSIS.analysis, improvements: 'none' } }, 'response.analysis.improvements must be an array, got string'],
+      ['a non-finite score', { ...ANALYSIS, transparencyScore: 'high' }, 'response.transparencyScore must be a finite number, got string'],
+    ])('rejects %s', (_label, payload, message) => {
+      const result = validateAnalyzeProduct(payload)
+
+      expect(result.value).toBeUndefined()
+      expect(result.errors).toContain(message)
+    })
+
+    it.each([null, 'ok', [ANALYSIS]])('rejects a %p body', payload => {
+      expect(validateAnalyzeProduct(payload).value).toBeUndefined()
+    })
+  })
+
+  describe('validateGenerateQuestions', () => {
+    it('fills defaults and drops malformed questions', () => {
+      const { value } = validateGenerateQuestions({
+        questions: [
+          { questionText: 'Where is it made?' },
+          { questionText: 'Tested on animals?', questionType: 'select', options: ['No', 'Yes', 7], isRequired: true },
+          { questionType: 'text' },
+          { questionText: 'Bad type', questionType: 'slider' },
+          'not a question',
+        ],
+      })
+
+      expect(value!.questions).toEqual([
+        { questionText: 'Where is it made?', questionType: 'text', isRequired: false },
+        { questionText: 'Tested on animals?', questionType: 'select', options: ['No', 'Yes'], isRequired: true },
+      ])
+    })
+
+    it('caps the number of questions', () => {
+      const questions = Array.from({ length: 60 }, (_, index) => ({ questionText: `Question ${index}` }))
+      expect(validateGenerateQuestions({ questions }).value!.questions).toHaveLength(50)
+    })
+
+    it('rejects a payload without a questions list', () => {
+      expect(validateGenerateQuestions({}).errors).toEqual(['response.questions is required'])
+    })
+  })
+
+  describe('validateTransparencyScore', () => {
+    it('clamps factor points and drops incomplete factors', () => {
+      const { value } = validateTransparencyScore({
+        transparencyScore: 80,
+        factors: [
+          { factor: 'ingredients', label: 'Ingredients', points: 250, maxPoints: 20 },
+          { factor: 'packaging', points: 5, maxPoints: 10 },
+        ],
+      })
+
+      expect(value).toEqual({
+        transparencyScore: 80,
+        factors: [{ factor: 'ingredients', label: 'Ingredients', points: 100, maxPoints: 20 }],
+      })
+    })
+
+    it('requires a score', () => {
+      expect(validateTransparencyScore({ factors: [] }).errors).toEqual(['response.transparencyScore is required'])
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import { AnalyzeProductResponse, GenerateQuestionsResponse, TransparencyScoreResponse } from '../types/ai'
+
+// Minimal declarative schemas for AI service payloads. Validation is lenient where it
+// can be made safe (strings are trimmed and truncated, arrays capped, numbers clamped,
+// unknown keys dropped) and strict where it cannot (missing or mistyped required fields).
+
+type FieldSchema =
+  | { type: 'string'; required?: boolean; maxLength: number }
+  | { type: 'number'; required?: boolean; min: number; max: number }
+  | { type: 'boolean'; required?: boolean; default?: boolean }
+  | { type: 'enum'; required?: boolean; values: readonly string[]; default?: string }
+  | { type: 'array'; required?: boolean; items: FieldSchema; maxItems: number }
+  | { type: 'object'; required?: boolean; fields: Record<string, FieldSchema> }
+
+export interface SchemaResult<T> {
+  value?: T
+  errors: string[]
+}
+
+// Bounds follow the Report and Question model limits
+const MAX_BULLETS = 10
+const bullet: FieldSchema = { type: 'string', required: true, maxLength: 500 }
+const bulletList: FieldSchema = { type: 'array', required: true, items: bullet, maxItems: MAX_BULLETS }
+
+const questionSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  fields: {
+    questionText: { type: 'string', required: true, maxLength: 500 },
+    questionType: { type: 'enum', values: ['text', 'select', 'multiselect'], default: 'text' },
+    options: { type: 'array', items: { type: 'string', required: true, maxLength: 200 }, maxItems: 20 },
+    isRequired: { type: 'boolean', default: false },
+  },
+}
+
+const scoreFactorSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  fields: {
+    factor: { type: 'string', required: true, maxLength: 50 },
+    label: { type: 'string', required: true, maxLength: 100 },
+    points: { type: 'number', required: true, min: -100, max: 100 },
+    maxPoints: { type: 'number', required: true, min: 0, max: 100 },
+  },
+}
+
+const generateQuestionsSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  fields: {
+    questions: { type: 'array', required: true, items: questionSchema, maxItems: 50 },
+  },
+}
+
+const transparencyScoreSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  fields: {
+    transparencyScore: { type: 'number', required: true, min: 0, max: 100 },
+    factors: { type: 'array', items: scoreFactorSchema, maxItems: 20 },
+  },
+}
+
+const analyzeProductSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  fields: {
+    summary: { type: 'string', required: true, maxLength: 2000 },
+    transparencyScore: { type: 'number', min: 0, max: 100 },
+    analysis: {
+      type: 'object',
+      required: true,
+      fields: {
+        strengths: bulletList,
+        improvements: bulletList,
+        recommendations: bulletList,
+      },
+    },
+    questions: { type: 'array', items: questionSchema, maxItems: 50 },
+    expectedQuestions: { type: 'array', items: { type: 'string', required: true, maxLength: 500 }, maxItems: 50 },
+  },
+}
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value)
+
+const validateField = (schema: FieldSchema, value: unknown, path: string, errors: string[]): unknown => {
+  const missing = value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+
+  if (missing) {
+    if ('default' in schema && schema.default !== undefined) return schema.default
+    if (schema.required) errors.push(`${path} is required`)
+    return undefined
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string, got ${describe(value)}`)
+        return undefined
+      }
+      return value.trim().slice(0, schema.maxLength)
+
+    case 'number': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof num !== 'number' || !Number.isFinite(num)) {
+        errors.push(`${path} must be a finite number, got ${describe(value)}`)
+        return undefined
+      }
+      return Math.max(schema.min, Math.min(schema.max, num))
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be a boolean, got ${describe(value)}`)
+        return undefined
+      }
+      return value
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        errors.push(`${path} must be one of ${schema.values.join(', ')}`)
+        return undefined
+      }
+      return value
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array, got ${describe(value)}`)
+        return undefined
+      }
+      // Invalid items are dropped rather than failing the whole payload
+      const items: unknown[] = []
+      for (const [index, item] of value.entries()) {
+        if (items.length >= schema.maxItems) break
+        const itemErrors: string[] = []
+        const validated = validateField(schema.items, item, `${path}[${index}]`, itemErrors)
+        if (itemErrors.length === 0 && validated !== undefined) items.push(validated)
+      }
+      return items
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object, got ${describe(value)}`)
+        return undefined
+      }
+      // Only declared keys are copied, so unknown keys are dropped
+      const result: Record<string, unknown> = {}
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const validated = validateField(fieldSchema, (value as Record<string, unknown>)[key], `${path}.${key}`, errors)
+        if (validated !== undefined) result[key] = validated
+      }
+      return result
+    }
+  }
+}
+
+export const validateAgainstSchema = <T>(schema: FieldSchema, data: unknown): SchemaResult<T> => {
+  const errors: string[] = []
+  const value = validateField(schema, data, 'response', errors)
+  return errors.length > 0 ? { errors } : { value: value as T, errors }
+}
+
+export const validateGenerateQuestions = (data: unknown) =>
+  validateAgainstSchema<GenerateQuestionsResponse>(generateQuestionsSchema, data)
+
+export const validateTransparencyScore = (data: unknown) =>
+  validateAgainstSchema<TransparencyScoreResponse>(transparencyScoreSchema, data)
+
+export const validateAnalyzeProduct = (data: unknown) =>
+  validateAgainstSchema<AnalyzeProductResponse>(analyzeProductSchema, data)
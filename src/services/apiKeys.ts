@@ -0,0 +1,82 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { ApiKey, ApiKeyOwnerType, IApiKey } from '../models/ApiKey'
+import { User, IUser } from '../models/User'
+import { ApiKeyScope } from '../config/permissions'
+import { AuthTokenError } from './tokens'
+
+const KEY_PREFIX = 'vsk'
+// lastUsedAt is informational, so avoid a write on every request
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex')
+
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  ownerType: ApiKeyOwnerType
+  expiresAt?: Date
+}
+
+/**
+ * Creates a key acting as `user` within their organization. Returns the raw key
+ * (`vsk_<prefix>_<secret>`), which is not stored and cannot be shown again.
+ */
+export const createApiKey = async (user: IUser, input: CreateApiKeyInput): Promise<{ apiKey: IApiKey; key: string }> => {
+  const prefix = crypto.randomBytes(6).toString('hex')
+  const secret = crypto.randomBytes(32).toString('hex')
+
+  const apiKey = await ApiKey.create({
+    name: input.name,
+    ownerType: input.ownerType,
+    userId: user._id,
+    organizationId: user.organizationId,
+    prefix,
+    keyHash: hashSecret(secret),
+    scopes: Array.from(new Set(input.scopes)),
+    expiresAt: input.expiresAt,
+  })
+
+  return { apiKey, key: `${KEY_PREFIX}_${prefix}_${secret}` }
+}
+
+/**
+ * Resolves a raw key to the key record and the user it acts as. Keys stop working when
+ * revoked or expired, and when that user is deactivated or leaves the key's organization.
+ */
+export const verifyApiKey = async (rawKey: string): Promise<{ apiKey: IApiKey; user: IUser }> => {
+  const [type, prefix, secret] = rawKey.trim().split('_')
+  if (type !== KEY_PREFIX || !prefix || !secret) throw new AuthTokenError('Invalid API key', 'invalid')
+
+  const apiKey = await ApiKey.findOne({ prefix }).select('+keyHash')
+  const expected = Buffer.from(apiKey?.keyHash ?? '', 'hex')
+  const actual = Buffer.from(hashSecret(secret), 'hex')
+  if (!apiKey || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new AuthTokenError('Invalid API key', 'invalid')
+  }
+  if (apiKey.revokedAt) throw new AuthTokenError('API key has been revoked', 'revoked')
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) throw new AuthTokenError('API key has expired', 'expired')
+
+  const user = await User.findById(apiKey.userId)
+  if (!user || !user.isActive || !user.organizationId?.equals(apiKey.organizationId)) {
+    throw new AuthTokenError('API key owner no longer has access', 'revoked')
+  }
+
+  return { apiKey, user }
+}
+
+export const touchApiKey = async (apiKey: IApiKey, ip?: string) => {
+  if (Date.now() - (apiKey.lastUsedAt?.getTime() ?? 0) < API_KEY_TOUCH_INTERVAL_MS) return
+  await ApiKey.updateOne(
+    { _id: apiKey._id },
+    { $set: { lastUsedAt: new Date(), ...(ip && { lastUsedIp: ip }) } }
+  )
+}
+
+export const revokeApiKey = async (apiKeyId: mongoose.Types.ObjectId | string, revokedBy: mongoose.Types.ObjectId) => {
+  return ApiKey.findOneAndUpdate(
+    { _id: apiKeyId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedBy } },
+    { new: true }
+  )
+}
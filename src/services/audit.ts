@@ -0,0 +1,24 @@
+import mongoose from 'mongoose'
+import { AuditLog, AuditAction, IAuditLog } from '../models/AuditLog'
+
+export interface AuditEntry {
+  action: AuditAction
+  actorId?: mongoose.Types.ObjectId
+  targetId: mongoose.Types.ObjectId
+  changes?: Record<string, { from: any; to: any }>
+  reason?: string
+  ip?: string
+}
+
+/**
+ * Records a user-management change. Failures are logged rather than thrown: the change
+ * itself has already been applied by the time it is audited.
+ */
+export const recordUserAudit = async (entry: AuditEntry): Promise<IAuditLog | null> => {
+  try {
+    return await AuditLog.create({ ...entry, targetType: 'User' })
+  } catch (error) {
+    console.error(`❌ Failed to record audit entry ${entry.action} for user ${entry.targetId}:`, (error as Error).message)
+    return null
+  }
+}
@@ -0,0 +1,138 @@
+import { AIProductInput } from '../types/ai'
+import { calculateFallbackScore, generateFallbackAnalysis, generateFallbackQuestions } from './fallbackEngine'
+
+const PRODUCT: AIProductInput = {
+  name: 'Hydra Cream',
+  brand: 'Acme',
+  category: 'Skincare',
+  ingredients: ['Aqua', 'Glycerin', 'Parfum', 'Sodium Lauryl Sulfate'],
+  description: 'A light daily moisturiser.',
+  certifications: ['Leaping Bunny'],
+  packaging: 'Recyclable glass jar',
+  sustainability: '30% recycled content',
+}
+
+const ANSWERS = { sourcing: 'France', animalTesting: 'No', allergens: '' }
+
+const points = (product: AIProductInput, answers = {}) =>
+  Object.fromEntries(calculateFallbackScore(product, answers).factors.map(factor => [factor.factor, factor.points]))
+
+describe('fallbackEngine', () => {
+  describe('determinism', () => {
+    it('returns identical questions, score and analysis for the same input', () => {
+      expect(generateFallbackQuestions(PRODUCT)).toEqual(generateFallbackQuestions(PRODUCT))
+      expect(calculateFallbackScore(PRODUCT, ANSWERS)).toEqual(calculateFallbackScore(PRODUCT, ANSWERS))
+      expect(generateFallbackAnalysis(PRODUCT, ANSWERS)).toEqual(generateFallbackAnalysis(PRODUCT, ANSWERS))
+    })
+
+    it('does not depend on the order answers were given in', () => {
+      const reversed = Object.fromEntries(Object.entries(ANSWERS).reverse())
+      expect(calculateFallbackScore(PRODUCT, reversed)).toEqual(calculateFallbackScore(PRODUCT, ANSWERS))
+    })
+
+    it('does not modify its input', () => {
+      const product = structuredClone(PRODUCT)
+      generateFallbackAnalysis(product, ANSWERS)
+      expect(product).toEqual(PRODUCT)
+    })
+  })
+
+  describe('calculateFallbackScore', () => {
+    it('scores each factor and subtracts ingredients of concern', () => {
+      expect(points(PRODUCT, ANSWERS)).toEqual({
+        ingredients: 16,
+        description: 5,
+        certifications: 10,
+        packaging: 10,
+        sustainability: 15,
+        answers: 17,
+        concerns: -4,
+      })
+      expect(calculateFallbackScore(PRODUCT, ANSWERS).transparencyScore).toBe(69)
+    })
+
+    it('gives nothing for an empty product', () => {
+      const { transparencyScore, factors } = calculateFallbackScore({})
+      expect(transparencyScore).toBe(0)
+      expect(factors.every(factor => factor.points === 0)).toBe(true)
+    })
+
+    it('caps the score at 100', () => {
+      const product: AIProductInput = {
+        ingredients: ['Aqua', 'Glycerin', 'Squalane', 'Tocopherol', 'Niacinamide', 'Panthenol'],
+        description: 'x'.repeat(120),
+        certifications: ['COSMOS', 'Leaping Bunny', 'Vegan Society'],
+        packaging: 'Refillable aluminium bottle',
+        sustainability: 'Certified carbon neutral',
+      }
+      expect(calculateFallbackScore(product, { a: 'yes' }).transparencyScore).toBe(100)
+    })
+
+    it('counts synonyms resolved to one knowledge-base entry once and uses hazard flags', () => {
+      const product: AIProductInput = {
+        ingredients: ['Aqua', 'Water', 'Limonene'],
+        resolvedIngredients: [
+          { input: 'Aqua', canonicalName: 'Water' },
+          { input: 'Water', canonicalName: 'Water' },
+          { input: 'Limonene', canonicalName: 'Limonene', hazardFlags: ['skin sensitiser'], allergenFlags: ['limonene'] },
+        ],
+        unresolvedIngredients: [],
+      }
+      expect(points(product)).toMatchObject({ ingredients: 8, concerns: -2 })
+      expect(generateFallbackAnalysis(product).analysis.improvements).toContain('Contains allergens that must be clearly labelled: limonene')
+    })
+  })
+
+  describe('generateFallbackQuestions', () => {
+    it('asks category questions and about ingredients of concern', () => {
+      const questions = generateFallbackQuestions(PRODUCT).map(question => question.questionText)
+
+      expect(questions[0]).toBe('Where are the key ingredients (Aqua, Glycerin, Parfum) sourced from?')
+      expect(questions).toContain('Has this product or any of its ingredients been tested on animals?')
+      expect(questions).toContain('Why is "Parfum" used, and at what concentration?')
+      expect(questions).toContain('Why is "Sodium Lauryl Sulfate" used, and at what concentration?')
+    })
+
+    it('falls back to the generic questions for unknown categories', () => {
+      const questions = generateFallbackQuestions({ category: 'Toys' }).map(question => question.questionText)
+      expect(questions).toContain('Where is this product manufactured?')
+    })
+
+    it('never returns more than ten questions', () => {
+      expect(generateFallbackQuestions({ category: 'Food & Beverage' }).length).toBeLessThanOrEqual(10)
+    })
+  })
+
+  describe('generateFallbackAnalysis', () => {
+    // Description and certifications tie at half marks; declaration order decides, so the later one is weakest
+    it('summarises the score with the strongest and weakest areas', () => {
+      const { summary, transparencyScore } = generateFallbackAnalysis(PRODUCT, ANSWERS)
+
+      expect(transparencyScore).toBe(69)
+      expect(summary).toBe(
+        'Hydra Cream by Acme in the Skincare category scores 69/100 (Good) in a rule-based transparency assessment. ' +
+          'Its strongest area is packaging information, while third-party certifications offers the most room for improvement.'
+      )
+    })
+  })
+
+  describe('malformed input', () => {
+    // /api/ai forwards client payloads as-is, so none of these may throw
+    const malformed = [
+      { name: 42, description: 1234, packaging: { material: 'glass' }, sustainability: ['recycled'] },
+      { category: 'toString', ingredients: 'Aqua, Glycerin', certifications: { 0: 'COSMOS' } },
+      { ingredients: [null, 7, { name: 'Aqua' }], resolvedIngredients: [null, 'Aqua', { canonicalName: 5, hazardFlags: 'yes' }] },
+      null,
+    ] as unknown as AIProductInput[]
+
+    it.each(malformed)('handles %p', product => {
+      expect(() => generateFallbackQuestions(product)).not.toThrow()
+      expect(() => calculateFallbackScore(product, null as any)).not.toThrow()
+      expect(() => generateFallbackAnalysis(product, 'answers' as any)).not.toThrow()
+    })
+
+    it('scores numeric text fields as text', () => {
+      expect(points({ name: 42, description: 1234 } as unknown as AIProductInput)).toMatchObject({ description: 5 })
+    })
+  })
+})
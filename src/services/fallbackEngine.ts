@@ -0,0 +1,396 @@
+// Rule-based stand-in for the AI service. Every function here is pure: the same
+// product and answers always produce the same questions, score and analysis.
+
+import { AIAnswers, AIProductInput, AIQuestion, ProductAnalysis, ScoreFactor, TransparencyScoreResponse } from '../types/ai'
+
+const MAX_QUESTIONS = 10
+
+// Ingredients that consumers and regulators routinely ask about
+const CONCERN_INGREDIENTS = [
+  'paraben',
+  'sulfate',
+  'sulphate',
+  'fragrance',
+  'parfum',
+  'phthalate',
+  'triclosan',
+  'formaldehyde',
+  'palm oil',
+  'microplastic',
+  'bpa',
+  'artificial color',
+  'high fructose',
+  'aspartame',
+]
+
+const RECYCLABLE_KEYWORDS = ['recycl', 'compost', 'biodegrad', 'refill', 'reusable', 'glass', 'aluminium', 'aluminum', 'paper']
+const MEASURABLE_KEYWORDS = ['%', 'carbon', 'co2', 'renewable', 'certified', 'offset', 'water', 'fair trade', 'traceab']
+
+const CATEGORY_QUESTIONS: Record<string, AIQuestion[]> = {
+  Skincare: [
+    { questionText: 'Has this product or any of its ingredients been tested on animals?', questionType: 'select', options: ['No', 'Yes', 'Unknown'], isRequired: true },
+    { questionText: 'Which known allergens or fragrance components does the formula contain?', questionType: 'text', isRequired: false },
+  ],
+  'Food & Beverage': [
+    { questionText: 'Which allergens are present in this product?', questionType: 'multiselect', options: ['Gluten', 'Dairy', 'Eggs', 'Nuts', 'Peanuts', 'Soy', 'Fish', 'Shellfish', 'Sesame', 'None'], isRequired: true },
+    { questionText: 'In which country is this product manufactured?', questionType: 'text', isRequired: true },
+  ],
+  'Personal Care': [
+    { questionText: 'Has this product or any of its ingredients been tested on animals?', questionType: 'select', options: ['No', 'Yes', 'Unknown'], isRequired: true },
+    { questionText: 'Is the full formula, including fragrance components, disclosed to consumers?', questionType: 'select', options: ['Yes', 'Partially', 'No'], isRequired: false },
+  ],
+  'Cleaning Products': [
+    { questionText: 'Are the surfactants in this product readily biodegradable?', questionType: 'select', options: ['Yes', 'Partially', 'No', 'Unknown'], isRequired: true },
+    { questionText: 'Which safety or hazard labels does this product carry?', questionType: 'text', isRequired: false },
+  ],
+  Clothing: [
+    { questionText: 'What is the fibre composition of this garment?', questionType: 'text', isRequired: true },
+    { questionText: 'Are the factories in the supply chain publicly listed or independently audited?', questionType: 'select', options: ['Publicly listed', 'Audited but not listed', 'Neither'], isRequired: true },
+  ],
+  Electronics: [
+    { questionText: 'How many years of warranty and spare-part availability do you offer?', questionType: 'text', isRequired: true },
+    { questionText: 'Do you publish a conflict-minerals or responsible-sourcing report?', questionType: 'select', options: ['Yes', 'No', 'In progress'], isRequired: false },
+  ],
+  Other: [
+    { questionText: 'Where is this product manufactured?', questionType: 'text', isRequired: true },
+  ],
+}
+
+const normalizeList = (values?: unknown) =>
+  (Array.isArray(values) ? values : []).filter(v => v !== null && v !== undefined).map(v => String(v).trim()).filter(Boolean)
+
+const normalizeText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim())
+
+/**
+ * Product data reaches the engine straight from API clients, so every field is coerced
+ * to the type the rules expect; the fallback must not fail on a malformed payload.
+ */
+const normalizeProduct = (product: AIProductInput): AIProductInput => {
+  const input: Record<string, unknown> = product && typeof product === 'object' ? { ...product } : {}
+  const resolved = Array.isArray(input.resolvedIngredients) ? input.resolvedIngredients : []
+  return {
+    name: normalizeText(input.name),
+    category: normalizeText(input.category),
+    brand: normalizeText(input.brand),
+    ingredients: normalizeList(input.ingredients),
+    resolvedIngredients: resolved
+      .filter(entry => entry && typeof entry === 'object' && normalizeText(entry.canonicalName) !== '')
+      .map(entry => ({
+        input: normalizeText(entry.input),
+        canonicalName: normalizeText(entry.canonicalName),
+        hazardFlags: normalizeList(entry.hazardFlags),
+        allergenFlags: normalizeList(entry.allergenFlags),
+      })),
+    unresolvedIngredients: normalizeList(input.unresolvedIngredients),
+    description: normalizeText(input.description),
+    certifications: normalizeList(input.certifications),
+    packaging: normalizeText(input.packaging),
+    sustainability: normalizeText(input.sustainability),
+  }
+}
+
+const matchesConcernKeyword = (ingredient: string) =>
+  CONCERN_INGREDIENTS.some(concern => ingredient.toLowerCase().includes(concern))
+
+interface IngredientProfile {
+  // Distinct ingredients: synonyms that resolve to one entry count once
+  names: string[]
+  concerns: string[]
+  allergens: string[]
+  unresolved: string[]
+}
+
+/**
+ * Uses the knowledge-base resolution when the product has one: hazard flags decide what
+ * is a concern, and "Aqua"/"Water" count as one ingredient. Unresolved names, and
+ * products that were never resolved, fall back to keyword matching.
+ */
+const getIngredientProfile = (product: AIProductInput): IngredientProfile => {
+  const resolved = Array.isArray(product.resolvedIngredients) ? product.resolvedIngredients : []
+  const unresolved = normalizeList(product.unresolvedIngredients)
+  // Both are empty for products saved before resolution (Mongoose defaults arrays to [])
+  if (resolved.length === 0 && unresolved.length === 0) {
+    const ingredients = normalizeList(product.ingredients)
+    return { names: ingredients, concerns: ingredients.filter(matchesConcernKeyword), allergens: [], unresolved: [] }
+  }
+
+  const canonical = Array.from(new Map(resolved.map(entry => [entry.canonicalName, entry])).values())
+  const unresolvedNames = Array.from(new Map(unresolved.map(name => [name.toLowerCase(), name])).values())
+
+  return {
+    names: [...canonical.map(entry => entry.canonicalName), ...unresolvedNames],
+    concerns: [
+      ...canonical.filter(entry => (entry.hazardFlags || []).length > 0).map(entry => entry.canonicalName),
+      ...unresolvedNames.filter(matchesConcernKeyword),
+    ],
+    allergens: Array.from(new Set(canonical.flatMap(entry => entry.allergenFlags || []))),
+    unresolved: unresolvedNames,
+  }
+}
+
+const includesAny = (text: string | undefined, keywords: string[]) =>
+  !!text && keywords.some(keyword => text.toLowerCase().includes(keyword))
+
+const isAnswered = (value: unknown) => {
+  if (value === null || value === undefined) return false
+  if (Array.isArray(value)) return value.length > 0
+  return String(value).trim() !== ''
+}
+
+const getScoreCategory = (score: number) => {
+  if (score >= 80) return 'Excellent'
+  if (score >= 60) return 'Good'
+  if (score >= 40) return 'Fair'
+  return 'Needs Improvement'
+}
+
+export function generateFallbackQuestions(product: AIProductInput): AIQuestion[] {
+  const productData = normalizeProduct(product)
+  const profile = getIngredientProfile(productData)
+  const ingredients = profile.names
+  const certifications = normalizeList(productData.certifications)
+  const questions: AIQuestion[] = []
+
+  questions.push({
+    questionText: ingredients.length > 0
+      ? `Where are the key ingredients (${ingredients.slice(0, 3).join(', ')}) sourced from?`
+      : 'Where are the key ingredients or materials sourced from?',
+    questionType: 'text',
+    isRequired: true,
+  })
+
+  const category = productData.category || ''
+  const categoryQuestions = Object.prototype.hasOwnProperty.call(CATEGORY_QUESTIONS, category) ? CATEGORY_QUESTIONS[category] : CATEGORY_QUESTIONS.Other
+  questions.push(...categoryQuestions.map(question => ({ ...question })))
+
+  for (const ingredient of profile.concerns.slice(0, 2)) {
+    questions.push({
+      questionText: `Why is "${ingredient}" used, and at what concentration?`,
+      questionType: 'text',
+      isRequired: false,
+    })
+  }
+
+  if (certifications.length === 0) {
+    questions.push({
+      questionText: 'Does this product hold any third-party certifications?',
+      questionType: 'select',
+      options: ['Yes', 'No', 'In progress'],
+      isRequired: true,
+    })
+  } else {
+    questions.push({
+      questionText: `Which bodies audit the ${certifications.join(', ')} certification(s), and when were they last renewed?`,
+      questionType: 'text',
+      isRequired: false,
+    })
+  }
+
+  if (!productData.packaging) {
+    questions.push({
+      questionText: 'What is the primary packaging material?',
+      questionType: 'select',
+      options: ['Plastic', 'Glass', 'Paper/Cardboard', 'Metal', 'Compostable', 'Other'],
+      isRequired: true,
+    })
+  } else {
+    questions.push({
+      questionText: `Is the packaging (${productData.packaging}) recyclable or refillable?`,
+      questionType: 'select',
+      options: ['Fully recyclable', 'Partially recyclable', 'Refillable', 'Not recyclable'],
+      isRequired: false,
+    })
+  }
+
+  if (!productData.sustainability) {
+    questions.push({
+      questionText: 'What measurable sustainability commitments (e.g. carbon, water, waste targets) does the brand make?',
+      questionType: 'text',
+      isRequired: false,
+    })
+  }
+
+  questions.push({
+    questionText: 'Can consumers request full ingredient or supply-chain documentation?',
+    questionType: 'select',
+    options: ['Yes, publicly available', 'Yes, on request', 'No'],
+    isRequired: false,
+  })
+
+  return questions.slice(0, MAX_QUESTIONS)
+}
+
+export function calculateFallbackScore(product: AIProductInput, answers: AIAnswers = {}): Required<TransparencyScoreResponse> {
+  const productData = normalizeProduct(product)
+  const profile = getIngredientProfile(productData)
+  const ingredients = profile.names
+  const certifications = normalizeList(productData.certifications)
+  const description = productData.description || ''
+  const answerValues = answers && typeof answers === 'object' ? Object.values(answers) : []
+  const answeredCount = answerValues.filter(isAnswered).length
+
+  const factors: ScoreFactor[] = [
+    {
+      factor: 'ingredients',
+      label: 'Ingredient disclosure',
+      points: Math.min(20, ingredients.length * 4),
+      maxPoints: 20,
+    },
+    {
+      factor: 'description',
+      label: 'Product description',
+      points: description.length >= 100 ? 10 : description.length > 0 ? 5 : 0,
+      maxPoints: 10,
+    },
+    {
+      factor: 'certifications',
+      label: 'Third-party certifications',
+      points: Math.min(20, certifications.length * 10),
+      maxPoints: 20,
+    },
+    {
+      factor: 'packaging',
+      label: 'Packaging information',
+      points: (productData.packaging ? 5 : 0) + (includesAny(productData.packaging, RECYCLABLE_KEYWORDS) ? 5 : 0),
+      maxPoints: 10,
+    },
+    {
+      factor: 'sustainability',
+      label: 'Sustainability disclosure',
+      points: (productData.sustainability ? 8 : 0) + (includesAny(productData.sustainability, MEASURABLE_KEYWORDS) ? 7 : 0),
+      maxPoints: 15,
+    },
+    {
+      factor: 'answers',
+      label: 'Questionnaire answers',
+      points: answerValues.length > 0 ? Math.round((answeredCount / answerValues.length) * 25) : 0,
+      maxPoints: 25,
+    },
+  ]
+
+  const concernCount = profile.concerns.length
+  if (concernCount > 0) {
+    factors.push({
+      factor: 'concerns',
+      label: 'Ingredients of concern',
+      points: -Math.min(10, concernCount * 2),
+      maxPoints: 0,
+    })
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0)
+  return { transparencyScore: Math.max(0, Math.min(100, total)), factors }
+}
+
+function generateStrengths(product: AIProductInput, factors: ScoreFactor[]): string[] {
+  const strengths = factors
+    .filter(factor => factor.maxPoints > 0 && factor.points / factor.maxPoints >= 0.7)
+    .map(factor => {
+      switch (factor.factor) {
+        case 'ingredients':
+          return `Detailed ingredient list with ${getIngredientProfile(product).names.length} disclosed ingredients`
+        case 'certifications':
+          return `Backed by third-party certifications: ${normalizeList(product.certifications).join(', ')}`
+        case 'packaging':
+          return 'Clear information about recyclable or low-impact packaging'
+        case 'sustainability':
+          return 'Sustainability claims include measurable commitments'
+        case 'answers':
+          return 'Questionnaire answered thoroughly'
+        default:
+          return `${factor.label} is well documented`
+      }
+    })
+
+  return strengths.length > 0 ? strengths : ['Basic product information provided']
+}
+
+function generateImprovements(product: AIProductInput, factors: ScoreFactor[]): string[] {
+  const improvements = factors
+    .filter(factor => factor.maxPoints > 0 && factor.points / factor.maxPoints < 0.5)
+    .map(factor => {
+      switch (factor.factor) {
+        case 'ingredients':
+          return 'Ingredient list is short or incomplete'
+        case 'description':
+          return 'Product description lacks detail'
+        case 'certifications':
+          return 'No third-party certifications to verify claims'
+        case 'packaging':
+          return 'Packaging material and end-of-life options are not disclosed'
+        case 'sustainability':
+          return 'Sustainability information is missing or not measurable'
+        case 'answers':
+          return 'Many questionnaire answers are missing'
+        default:
+          return `${factor.label} needs more detail`
+      }
+    })
+
+  const { concerns, allergens } = getIngredientProfile(product)
+  if (concerns.length > 0) {
+    improvements.push(`Contains ingredients that often raise consumer concern: ${concerns.join(', ')}`)
+  }
+  if (allergens.length > 0) {
+    improvements.push(`Contains allergens that must be clearly labelled: ${allergens.join(', ')}`)
+  }
+
+  return improvements
+}
+
+function generateRecommendations(product: AIProductInput, factors: ScoreFactor[]): string[] {
+  const weak = new Set(
+    factors.filter(factor => factor.maxPoints > 0 && factor.points / factor.maxPoints < 0.5).map(factor => factor.factor)
+  )
+  const recommendations: string[] = []
+
+  if (weak.has('ingredients')) recommendations.push('Publish the complete ingredient list, including sub-ingredients and their origins')
+  if (weak.has('certifications')) recommendations.push('Pursue an independent certification relevant to the product category')
+  if (weak.has('packaging')) recommendations.push('Disclose packaging materials and how consumers can recycle or return them')
+  if (weak.has('sustainability')) recommendations.push('Set and publish measurable sustainability targets (carbon, water, waste)')
+  if (weak.has('answers')) recommendations.push('Complete the transparency questionnaire to strengthen the report')
+  if (weak.has('description')) recommendations.push('Expand the product description with usage, sourcing and manufacturing details')
+
+  const profile = getIngredientProfile(product)
+  if (profile.concerns.length > 0) {
+    recommendations.push('Explain the purpose and concentration of ingredients of concern, or consider safer alternatives')
+  }
+  // Only worth asking for once the knowledge base recognises some of the list
+  if (profile.unresolved.length > 0 && profile.names.length > profile.unresolved.length) {
+    recommendations.push(`List ingredients by their INCI name or E-number so they can be verified: ${profile.unresolved.slice(0, 5).join(', ')}`)
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push('Keep disclosures up to date and consider publishing a full supply-chain map')
+  }
+
+  return recommendations
+}
+
+export function generateFallbackAnalysis(productData: AIProductInput, answers: AIAnswers = {}): ProductAnalysis {
+  const product = normalizeProduct(productData)
+  const { transparencyScore, factors } = calculateFallbackScore(product, answers)
+  const scored = factors.filter(factor => factor.maxPoints > 0)
+  const ratio = (factor: ScoreFactor) => factor.points / factor.maxPoints
+  // Stable sort: ties keep declaration order, so the summary is reproducible
+  const ranked = [...scored].sort((a, b) => ratio(b) - ratio(a))
+
+  const name = product.name || 'This product'
+  const brand = product.brand ? ` by ${product.brand}` : ''
+  const category = product.category ? ` in the ${product.category} category` : ''
+
+  const summary =
+    `${name}${brand}${category} scores ${transparencyScore}/100 (${getScoreCategory(transparencyScore)}) ` +
+    `in a rule-based transparency assessment. Its strongest area is ${ranked[0].label.toLowerCase()}, ` +
+    `while ${ranked[ranked.length - 1].label.toLowerCase()} offers the most room for improvement.`
+
+  return {
+    summary,
+    transparencyScore,
+    analysis: {
+      strengths: generateStrengths(product, factors),
+      improvements: generateImprovements(product, factors),
+      recommendations: generateRecommendations(product, factors),
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose'
+import { Ingredient, IIngredient, normalizeIngredientName } from '../models/Ingredient'
+import { IResolvedIngredient, Product } from '../models/Product'
+import { escapeRegex } from '../utils/regex'
+
+const REFRESH_BATCH_SIZE = 200
+
+export interface IngredientResolution {
+  resolvedIngredients: IResolvedIngredient[]
+  unresolvedIngredients: string[]
+}
+
+// "Water (Aqua)" is tried whole, then as "water" and "aqua"
+const candidateKeys = (input: string): string[] => {
+  const normalized = normalizeIngredientName(input)
+  const parts = normalized.match(/^(.*?)\s*\((.*)\)$/)
+  const keys = parts ? [normalized, normalizeIngredientName(parts[1]), normalizeIngredientName(parts[2])] : [normalized]
+  return keys.filter(Boolean)
+}
+
+const toResolved = (input: string, ingredient: IIngredient): IResolvedIngredient => ({
+  input,
+  ingredientId: ingredient._id,
+  canonicalName: ingredient.canonicalName,
+  function: ingredient.function,
+  hazardFlags: [...(ingredient.hazardFlags || [])],
+  allergenFlags: [...(ingredient.allergenFlags || [])],
+})
+
+/**
+ * Loads every knowledge-base entry the given names could match in one query and returns
+ * a synchronous resolver, so bulk imports don't query once per product.
+ */
+export const createIngredientResolver = async (names: string[]) => {
+  const keys = Array.from(new Set(names.flatMap(candidateKeys)))
+  const ingredients = keys.length > 0 ? await Ingredient.find({ lookupKeys: { $in: keys } }).lean<IIngredient[]>() : []
+
+  const byKey = new Map<string, IIngredient>()
+  for (const ingredient of ingredients) {
+    for (const key of ingredient.lookupKeys) byKey.set(key, ingredient)
+  }
+
+  return (inputs: string[] = []): IngredientResolution => {
+    const resolution: IngredientResolution = { resolvedIngredients: [], unresolvedIngredients: [] }
+    for (const input of inputs) {
+      const match = candidateKeys(input).map(key => byKey.get(key)).find(Boolean)
+      if (match) resolution.resolvedIngredients.push(toResolved(input, match))
+      else resolution.unresolvedIngredients.push(input)
+    }
+    return resolution
+  }
+}
+
+export const resolveIngredients = async (inputs: string[] = []): Promise<IngredientResolution> =>
+  (await createIngredientResolver(inputs))(inputs)
+
+/**
+ * Re-resolves products affected by a knowledge-base change: those linked to the ingredient,
+ * and those listing any of its names (covering products that were unresolved or created
+ * before the knowledge base existed). Works in `_id` order, one query and one bulkWrite per
+ * batch, and returns how many products were updated.
+ */
+export const refreshProductsForIngredient = async (
+  ingredientId: mongoose.Types.ObjectId,
+  lookupKeys: string[] = []
+): Promise<number> => {
+  const namePatterns = lookupKeys.map(key => new RegExp(`(^|\\()\\s*${escapeRegex(key)}\\s*(\\)|$)`, 'i'))
+  const query = {
+    $or: [
+      { 'resolvedIngredients.ingredientId': ingredientId },
+      ...(namePatterns.length > 0 ? [{ ingredients: { $in: namePatterns } }] : []),
+    ],
+  }
+
+  let updated = 0
+  let lastId: mongoose.Types.ObjectId | undefined
+  for (;;) {
+    const products = await Product.find(lastId ? { ...query, _id: { $gt: lastId } } : query)
+      .select('ingredients')
+      .sort({ _id: 1 })
+      .limit(REFRESH_BATCH_SIZE)
+      .lean<{ _id: mongoose.Types.ObjectId; ingredients: string[] }[]>()
+    if (products.length === 0) break
+
+    const resolve = await createIngredientResolver(products.flatMap(product => product.ingredients))
+    // Relinking is not an edit, so updatedAt is left alone
+    const result = await Product.bulkWrite(
+      products.map(product => ({
+        updateOne: { filter: { _id: product._id }, update: { $set: resolve(product.ingredients) }, timestamps: false },
+      })),
+      { ordered: false }
+    )
+    updated += result.matchedCount
+    lastId = products[products.length - 1]._id
+  }
+  return updated
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto'
+import { Invitation, IInvitation, InvitationRole } from '../models/Invitation'
+import { IOrganization } from '../models/Organization'
+import { User, IUser } from '../models/User'
+import { buildAppUrl, sendMail } from './mailer'
+
+const DEFAULT_EXPIRE_DAYS = 7
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!)
+
+const getExpireDays = () => {
+  const days = parseInt(process.env.INVITATION_EXPIRE_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_EXPIRE_DAYS
+}
+
+/**
+ * Creates an invitation and emails its accept link. Any pending invitation for the same
+ * email is revoked, so only the most recent link works.
+ */
+export const createInvitation = async (
+  organization: IOrganization,
+  email: string,
+  role: InvitationRole,
+  invitedBy: IUser
+): Promise<IInvitation> => {
+  const normalizedEmail = email.toLowerCase()
+  await Invitation.updateMany(
+    { organizationId: organization._id, email: normalizedEmail, acceptedAt: null, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  )
+
+  const token = crypto.randomBytes(32).toString('hex')
+  const invitation = await Invitation.create({
+    organizationId: organization._id,
+    email: normalizedEmail,
+    role,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + getExpireDays() * 24 * 60 * 60 * 1000),
+    invitedBy: invitedBy._id,
+  })
+
+  const acceptUrl = buildAppUrl('/invitations/accept', { token })
+  await sendMail({
+    to: normalizedEmail,
+    subject: `You've been invited to join ${organization.name} on VeriScope AI`,
+    text: [
+      `${invitedBy.name} invited you to join ${organization.name} with the ${role} role.`,
+      '',
+      `Accept the invitation: ${acceptUrl}`,
+      '',
+      `This link expires on ${invitation.expiresAt.toUTCString()}.`,
+    ].join('\n'),
+    html: `<p>${escapeHtml(invitedBy.name)} invited you to join <strong>${escapeHtml(organization.name)}</strong>.</p>` +
+      `<p><a href="${escapeHtml(acceptUrl)}">Accept the invitation</a></p>`,
+  })
+
+  return invitation
+}
+
+// Resolves a raw token to an invitation that can still be accepted
+export const findPendingInvitation = async (token: string): Promise<IInvitation | null> => {
+  return Invitation.findOne({
+    tokenHash: hashToken(token),
+    acceptedAt: null,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  })
+}
+
+/**
+ * Moves the user into the invitation's organization with the invited role. The
+ * invitation is claimed atomically so a link can only be used once.
+ */
+export const acceptInvitation = async (invitation: IInvitation, user: IUser): Promise<boolean> => {
+  const claimed = await Invitation.findOneAndUpdate(
+    { _id: invitation._id, acceptedAt: null, revokedAt: null },
+    { $set: { acceptedAt: new Date(), acceptedBy: user._id } },
+    { new: true }
+  )
+  if (!claimed) return false
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { organizationId: invitation.organizationId, organizationRole: invitation.role } }
+  )
+  user.organizationId = invitation.organizationId
+  user.organizationRole = invitation.role
+  return true
+}
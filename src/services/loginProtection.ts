@@ -0,0 +1,146 @@
+import mongoose from 'mongoose'
+import { LoginAttempt, LoginAttemptScope } from '../models/LoginAttempt'
+import { User, IUser } from '../models/User'
+import { recordUserAudit } from './audit'
+
+// Failures allowed before delays start. IPs get more headroom since offices and
+// mobile carriers put many users behind one address.
+const FREE_FAILURES: Record<LoginAttemptScope, number> = { email: 3, ip: 10 }
+const MAX_DELAY_SECONDS = 5 * 60
+
+const readPositiveInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+const getWindowMs = () => readPositiveInt('LOGIN_ATTEMPT_WINDOW_MINUTES', 15) * 60 * 1000
+const getLockoutThreshold = () => readPositiveInt('LOGIN_LOCKOUT_THRESHOLD', 10)
+const getLockoutMs = () => readPositiveInt('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000))
+
+const attemptKeys = (email: string, ip?: string) => [
+  { scope: 'email' as const, key: email.trim().toLowerCase() },
+  ...(ip ? [{ scope: 'ip' as const, key: ip }] : []),
+]
+
+// 1s, 2s, 4s, ... once the free failures are used up
+const delayForFailures = (scope: LoginAttemptScope, failures: number) => {
+  const excess = failures - FREE_FAILURES[scope]
+  return excess <= 0 ? 0 : Math.min(2 ** (excess - 1), MAX_DELAY_SECONDS)
+}
+
+export interface LoginFailureResult {
+  // Seconds the client must wait before the next attempt, 0 if none
+  retryAfter: number
+  // Set when this failure locked the account
+  lockedUntil?: Date
+}
+
+/**
+ * Seconds until this email/IP pair may try again, or 0. Applies whether or not the
+ * email belongs to an account, so the delay does not reveal which addresses exist.
+ */
+export const getLoginRetryAfter = async (email: string, ip?: string): Promise<number> => {
+  const blocked = await LoginAttempt.find({
+    $or: attemptKeys(email, ip),
+    blockedUntil: { $gt: new Date() },
+  }).lean()
+  if (blocked.length === 0) return 0
+  return secondsUntil(new Date(Math.max(...blocked.map(attempt => attempt.blockedUntil!.getTime()))))
+}
+
+// Seconds left on the account's lockout, or 0
+export const getLockRetryAfter = (user: IUser) =>
+  user.lockUntil && user.lockUntil > new Date() ? secondsUntil(user.lockUntil) : 0
+
+const lockAfterFailure = async (user: IUser, ip?: string): Promise<Date | undefined> => {
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  )
+  const threshold = getLockoutThreshold()
+  if (!updated || updated.failedLoginAttempts < threshold) return undefined
+
+  // Matching on the count we just wrote lets only one concurrent request apply the lock
+  const lockUntil = new Date(Date.now() + getLockoutMs())
+  const locked = await User.updateOne(
+    { _id: user._id, failedLoginAttempts: updated.failedLoginAttempts },
+    { $set: { lockUntil, failedLoginAttempts: 0 } }
+  )
+  if (locked.modifiedCount !== 1) return undefined
+
+  await recordUserAudit({
+    action: 'user.locked',
+    targetId: user._id,
+    changes: { lockUntil: { from: user.lockUntil ?? null, to: lockUntil } },
+    reason: `${threshold} consecutive failed login attempts`,
+    ip,
+  })
+  return lockUntil
+}
+
+/**
+ * Counts a failed password or second-factor check against the email and IP, and against
+ * the account when one matched.
+ */
+export const recordLoginFailure = async (email: string, ip?: string, user?: IUser): Promise<LoginFailureResult> => {
+  const now = Date.now()
+  const expiresAt = new Date(now + getWindowMs())
+
+  const delays = await Promise.all(attemptKeys(email, ip).map(async ({ scope, key }) => {
+    const attempt = await LoginAttempt.findOneAndUpdate(
+      { scope, key },
+      { $inc: { failures: 1 }, $set: { lastFailedAt: new Date(now), expiresAt } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    )
+    const delay = delayForFailures(scope, attempt.failures)
+    if (delay > 0) {
+      const blockedUntil = new Date(now + delay * 1000)
+      await LoginAttempt.updateOne(
+        { _id: attempt._id },
+        { $set: { blockedUntil, expiresAt: new Date(Math.max(expiresAt.getTime(), blockedUntil.getTime())) } }
+      )
+    }
+    return delay
+  }))
+
+  const lockedUntil = user ? await lockAfterFailure(user, ip) : undefined
+  return { retryAfter: Math.max(0, ...delays), lockedUntil }
+}
+
+/**
+ * Resets counters after a complete login. The IP counter is left alone so an attacker
+ * cannot clear it by signing in to an account of their own.
+ */
+export const clearLoginFailures = async (user: IUser) => {
+  await Promise.all([
+    LoginAttempt.deleteOne({ scope: 'email', key: user.email }),
+    user.failedLoginAttempts > 0 || user.lockUntil
+      ? User.updateOne({ _id: user._id }, { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } })
+      : null,
+  ])
+}
+
+export interface UnlockOptions {
+  actorId?: mongoose.Types.ObjectId
+  reason?: string
+  ip?: string
+}
+
+// Lifts a lockout and any email throttle ahead of schedule
+export const unlockUser = async (user: IUser, options: UnlockOptions = {}) => {
+  await Promise.all([
+    User.updateOne({ _id: user._id }, { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } }),
+    LoginAttempt.deleteOne({ scope: 'email', key: user.email }),
+  ])
+  await recordUserAudit({
+    action: 'user.unlocked',
+    actorId: options.actorId,
+    targetId: user._id,
+    changes: { lockUntil: { from: user.lockUntil ?? null, to: null } },
+    reason: options.reason,
+    ip: options.ip,
+  })
+}
@@ -0,0 +1,72 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// Writes each message as a JSON file so dev and CI can read links out of the outbox
+class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    )
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`)
+  }
+}
+
+const transportFactories = new Map<string, () => MailTransport>([
+  ['file', () => new FileTransport(path.resolve(process.env.MAIL_OUTBOX_PATH || './outbox'))],
+  ['console', () => new ConsoleTransport()],
+])
+
+let transport: MailTransport | null = null
+
+/**
+ * Makes another transport (SMTP, a provider SDK, ...) selectable through MAIL_TRANSPORT.
+ */
+export const registerMailTransport = (name: string, factory: () => MailTransport) => {
+  transportFactories.set(name, factory)
+  transport = null
+}
+
+// Resolved on first send, after env files have been loaded
+const getTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'file'
+    const factory = transportFactories.get(name)
+    if (!factory) throw new Error(`Unknown mail transport: ${name}`)
+    transport = factory()
+  }
+  return transport
+}
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getTransport().send({ ...message, from: process.env.MAIL_FROM || 'VeriScope AI <no-reply@veriscope.local>' })
+}
+
+// Links in emails point at the frontend, which calls the API with the token
+export const buildAppUrl = (pathname: string, params: Record<string, string> = {}) => {
+  const base = process.env.APP_URL || (process.env.CORS_ORIGIN || 'http://localhost:3000').split(',')[0].trim()
+  const url = new URL(pathname, base)
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value)
+  return url.toString()
+}
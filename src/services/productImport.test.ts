@@ -0,0 +1,175 @@
+import { Product } from '../models/Product'
+import { createIngredientResolver } from './ingredientResolver'
+import { ImportFieldError, importProducts, MAX_IMPORT_ROWS, mapImportRow, parseImportFile, ProductImportError, splitList } from './productImport'
+
+jest.mock('../models/Product', () => ({
+  Product: { insertMany: jest.fn() },
+}))
+jest.mock('./ingredientResolver', () => ({
+  createIngredientResolver: jest.fn(),
+}))
+
+const mockedProduct = Product as unknown as { insertMany: jest.Mock }
+const mockedCreateResolver = createIngredientResolver as jest.Mock
+
+const file = (originalname: string, content: string, mimetype = 'application/octet-stream') =>
+  ({ originalname, mimetype, buffer: Buffer.from(content, 'utf8') }) as Express.Multer.File
+
+// Stands in for the route's validator: name is required and category must be a known one
+const validateRow = async (product: Record<string, unknown>): Promise<ImportFieldError[]> => {
+  const errors: ImportFieldError[] = []
+  if (!product.name) errors.push({ field: 'name', message: 'Product name is required' })
+  if (product.category && product.category !== 'skincare') errors.push({ field: 'category', message: 'Invalid category' })
+  return errors
+}
+
+const defaults = { organizationId: 'org-1', createdBy: 'user-1' }
+
+describe('productImport', () => {
+  describe('parseImportFile', () => {
+    it('reads CSV with quoted fields, embedded newlines, CRLF and a BOM', () => {
+      const csv = '﻿Product Name,Ingredients,Description\r\n"Cream, rich","Aqua; Glycerin","Line one\r\nLine two"\r\nSoap,Aqua,\r\n'
+
+      expect(parseImportFile(file('products.csv', csv))).toEqual([
+        { 'Product Name': 'Cream, rich', Ingredients: 'Aqua; Glycerin', Description: 'Line one\r\nLine two' },
+        { 'Product Name': 'Soap', Ingredients: 'Aqua', Description: '' },
+      ])
+    })
+
+    it('detects CSV from the MIME type', () => {
+      expect(parseImportFile(file('upload', 'name\nCream', 'text/csv'))).toEqual([{ name: 'Cream' }])
+    })
+
+    it('reads a JSON array or a products wrapper', () => {
+      const products = [{ name: 'Cream' }]
+      expect(parseImportFile(file('products.json', JSON.stringify(products)))).toEqual(products)
+      expect(parseImportFile(file('products.json', `﻿${JSON.stringify({ products })}`))).toEqual(products)
+    })
+
+    it.each([
+      ['an unsupported format', file('products.xlsx', 'x'), 'Only .csv and .json files can be imported'],
+      ['invalid JSON', file('products.json', '{'), 'File is not valid JSON'],
+      ['JSON that is not a list of objects', file('products.json', '[1, 2]'), 'JSON must be an array of product objects'],
+      ['an unterminated quote', file('products.csv', 'name\n"Cream'), 'Could not parse CSV: Unterminated quoted field'],
+      ['a header-only CSV', file('products.csv', 'name,brand\r\n'), 'File contains no product rows'],
+    ])('rejects %s', (_label, upload, message) => {
+      expect(() => parseImportFile(upload)).toThrow(ProductImportError)
+      expect(() => parseImportFile(upload)).toThrow(message)
+    })
+
+    it(`rejects files over ${MAX_IMPORT_ROWS} rows`, () => {
+      const csv = `name\n${'Cream\n'.repeat(MAX_IMPORT_ROWS + 1)}`
+      expect(() => parseImportFile(file('products.csv', csv))).toThrow(`limited to ${MAX_IMPORT_ROWS} rows`)
+    })
+  })
+
+  describe('splitList', () => {
+    it('prefers semicolons, pipes and newlines over commas', () => {
+      expect(splitList('1,2-Hexanediol; Aqua')).toEqual(['1,2-Hexanediol', 'Aqua'])
+      expect(splitList('Aqua | Glycerin')).toEqual(['Aqua', 'Glycerin'])
+      expect(splitList('Aqua\nGlycerin')).toEqual(['Aqua', 'Glycerin'])
+    })
+
+    it('falls back to commas and drops empty items', () => {
+      expect(splitList('Aqua, Glycerin,, ')).toEqual(['Aqua', 'Glycerin'])
+    })
+  })
+
+  describe('mapImportRow', () => {
+    it('maps header aliases and splits list fields', () => {
+      expect(mapImportRow({ 'Product Name': ' Cream ', Manufacturer: 'Acme', INCI: 'Aqua; Glycerin', Unknown: 'x' })).toEqual({
+        name: 'Cream',
+        brand: 'Acme',
+        ingredients: ['Aqua', 'Glycerin'],
+      })
+    })
+
+    it('lets an explicit mapping override the aliases', () => {
+      expect(mapImportRow({ Title: 'Cream', Label: 'Serum' }, { label: 'name' })).toEqual({ name: 'Serum' })
+    })
+
+    it('accepts arrays from JSON and skips empty values', () => {
+      expect(mapImportRow({ name: 'Cream', ingredients: [' Aqua ', ''], brand: '  ', certifications: null })).toEqual({
+        name: 'Cream',
+        ingredients: ['Aqua'],
+      })
+    })
+  })
+
+  describe('importProducts', () => {
+    const records = [
+      { name: 'Cream', category: 'skincare', ingredients: 'Aqua; Glycerin' },
+      { name: '', category: 'skincare' },
+      { name: 'Serum', category: 'skincare', ingredients: 'Niacinamide' },
+      { name: 'Soap', category: 'weapons' },
+    ]
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockedCreateResolver.mockResolvedValue((inputs: string[] = []) => ({
+        resolvedIngredients: inputs.filter(input => input === 'Aqua').map(input => ({ input, inciName: 'AQUA' })),
+        unresolvedIngredients: inputs.filter(input => input !== 'Aqua'),
+      }))
+      mockedProduct.insertMany.mockImplementation(async (docs: unknown[]) => docs)
+    })
+
+    it('reports each invalid row by its 1-based position with every field error', async () => {
+      const result = await importProducts(records, { defaults, dryRun: true, validateRow })
+
+      expect(result).toMatchObject({ total: 4, valid: 2, failed: 2 })
+      expect(result.errors).toEqual([
+        { row: 2, errors: [{ field: 'name', message: 'Product name is required' }] },
+        { row: 4, errors: [{ field: 'category', message: 'Invalid category' }] },
+      ])
+    })
+
+    it('keeps collecting errors for later rows after a failure', async () => {
+      const result = await importProducts([{ name: '' }, { name: '', category: 'x' }], { defaults, dryRun: false, validateRow })
+
+      expect(result.errors.map(({ row, errors }) => [row, errors.length])).toEqual([
+        [1, 1],
+        [2, 2],
+      ])
+      expect(result.inserted).toBe(0)
+      expect(mockedProduct.insertMany).not.toHaveBeenCalled()
+    })
+
+    it('does not write on a dry run and previews the resolved rows', async () => {
+      const result = await importProducts(records, { defaults, dryRun: true, validateRow })
+
+      expect(mockedProduct.insertMany).not.toHaveBeenCalled()
+      expect(result.dryRun).toBe(true)
+      expect(result.inserted).toBe(0)
+      expect(result.preview).toEqual([
+        {
+          row: 1,
+          product: expect.objectContaining({
+            name: 'Cream',
+            resolvedIngredients: [{ input: 'Aqua', inciName: 'AQUA' }],
+            unresolvedIngredients: ['Glycerin'],
+          }),
+        },
+        { row: 3, product: expect.objectContaining({ name: 'Serum', unresolvedIngredients: ['Niacinamide'] }) },
+      ])
+    })
+
+    it('inserts only the valid rows with the defaults applied', async () => {
+      const result = await importProducts(records, { defaults, dryRun: false, validateRow })
+
+      expect(mockedProduct.insertMany).toHaveBeenCalledTimes(1)
+      const [docs, options] = mockedProduct.insertMany.mock.calls[0]
+      expect(docs.map((doc: any) => doc.name)).toEqual(['Cream', 'Serum'])
+      docs.forEach((doc: any) => expect(doc).toMatchObject(defaults))
+      expect(options).toEqual({ ordered: false })
+      expect(result).toMatchObject({ dryRun: false, inserted: 2, failed: 2 })
+      expect(result.preview).toBeUndefined()
+    })
+
+    it('applies the column mapping before validating', async () => {
+      const result = await importProducts([{ Label: 'Cream' }], { mapping: { label: 'name' }, defaults, dryRun: true, validateRow })
+
+      expect(result.failed).toBe(0)
+      expect(result.preview![0].product.name).toBe('Cream')
+    })
+  })
+})
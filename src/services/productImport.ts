@@ -0,0 +1,200 @@
+import path from 'path'
+import { Product } from '../models/Product'
+import { parseCsvRecords } from '../utils/csv'
+import { createIngredientResolver } from './ingredientResolver'
+
+export const PRODUCT_IMPORT_FIELDS = [
+  'name',
+  'category',
+  'brand',
+  'ingredients',
+  'description',
+  'certifications',
+  'packaging',
+  'sustainability',
+] as const
+
+export type ProductImportField = typeof PRODUCT_IMPORT_FIELDS[number]
+
+const LIST_FIELDS: ProductImportField[] = ['ingredients', 'certifications']
+
+export const MAX_IMPORT_ROWS = 5000
+
+// Header spellings seen in ERP and spreadsheet exports, compared after normalizeHeader
+const HEADER_ALIASES: Record<string, ProductImportField> = {
+  name: 'name',
+  productname: 'name',
+  product: 'name',
+  title: 'name',
+  category: 'category',
+  productcategory: 'category',
+  brand: 'brand',
+  brandname: 'brand',
+  manufacturer: 'brand',
+  ingredients: 'ingredients',
+  ingredientlist: 'ingredients',
+  inci: 'ingredients',
+  description: 'description',
+  certifications: 'certifications',
+  certification: 'certifications',
+  certs: 'certifications',
+  packaging: 'packaging',
+  sustainability: 'sustainability',
+}
+
+export class ProductImportError extends Error {}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Splits a list cell. Semicolons or pipes take precedence so that ingredient names
+ * containing commas (e.g. "1,2-Hexanediol") survive when the file uses them.
+ */
+export const splitList = (value: string): string[] => {
+  const separator = /[;|\n]/.test(value) ? /[;|\n]/ : /,/
+  return value.split(separator).map(item => item.trim()).filter(Boolean)
+}
+
+/**
+ * Maps a source row to product fields. An explicit `mapping` (source column → field)
+ * wins over the built-in aliases; unmapped columns are ignored.
+ */
+export const mapImportRow = (
+  record: Record<string, unknown>,
+  mapping: Record<string, ProductImportField> = {}
+): Record<string, unknown> => {
+  const explicit = new Map(Object.entries(mapping).map(([column, field]) => [normalizeHeader(column), field]))
+  const product: Record<string, unknown> = {}
+
+  for (const [column, raw] of Object.entries(record)) {
+    const key = normalizeHeader(column)
+    const field = explicit.get(key) ?? HEADER_ALIASES[key]
+    if (!field || raw === undefined || raw === null) continue
+
+    if (LIST_FIELDS.includes(field)) {
+      const items = Array.isArray(raw) ? raw.map(item => String(item).trim()).filter(Boolean) : splitList(String(raw))
+      if (items.length > 0) product[field] = items
+    } else {
+      const value = String(raw).trim()
+      if (value !== '') product[field] = value
+    }
+  }
+
+  return product
+}
+
+// Accepts a JSON array of objects, or an object with a `products` array
+const parseJsonRecords = (text: string): Record<string, unknown>[] => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new ProductImportError('File is not valid JSON')
+  }
+  const records = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown })?.products
+  if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+    throw new ProductImportError('JSON must be an array of product objects or { "products": [...] }')
+  }
+  return records as Record<string, unknown>[]
+}
+
+export const getImportFormat = (file: Express.Multer.File): 'csv' | 'json' | null => {
+  const extension = path.extname(file.originalname).toLowerCase()
+  if (extension === '.csv' || file.mimetype === 'text/csv') return 'csv'
+  if (extension === '.json' || file.mimetype === 'application/json') return 'json'
+  return null
+}
+
+export const parseImportFile = (file: Express.Multer.File): Record<string, unknown>[] => {
+  const format = getImportFormat(file)
+  if (!format) throw new ProductImportError('Only .csv and .json files can be imported')
+
+  // Spreadsheet exports often start with a byte order mark, which JSON.parse rejects
+  const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '')
+  let records: Record<string, unknown>[]
+  if (format === 'json') {
+    records = parseJsonRecords(text)
+  } else {
+    try {
+      records = parseCsvRecords(text)
+    } catch (error) {
+      throw new ProductImportError(`Could not parse CSV: ${(error as Error).message}`)
+    }
+  }
+
+  if (records.length === 0) throw new ProductImportError('File contains no product rows')
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows; split larger imports`)
+  }
+  return records
+}
+
+export interface ImportFieldError {
+  field?: string
+  message: string
+}
+
+export interface ProductImportResult {
+  dryRun: boolean
+  total: number
+  valid: number
+  inserted: number
+  failed: number
+  // Rows are numbered from 1 in file order, excluding the CSV header
+  errors: { row: number; errors: ImportFieldError[] }[]
+  preview?: { row: number; product: Record<string, unknown> }[]
+}
+
+export interface ProductImportOptions {
+  mapping?: Record<string, ProductImportField>
+  // Fields every imported product gets, e.g. organizationId and createdBy
+  defaults: Record<string, unknown>
+  dryRun: boolean
+  validateRow: (product: Record<string, unknown>, defaults: Record<string, unknown>) => Promise<ImportFieldError[]>
+}
+
+/**
+ * Maps and validates every record, then inserts the valid ones unless this is a dry run.
+ * Invalid rows are reported rather than failing the whole import.
+ */
+export const importProducts = async (
+  records: Record<string, unknown>[],
+  { mapping, defaults, dryRun, validateRow }: ProductImportOptions
+): Promise<ProductImportResult> => {
+  const rowErrors: ProductImportResult['errors'] = []
+  const validRows: { row: number; product: Record<string, unknown> }[] = []
+  for (const [index, record] of records.entries()) {
+    const product = mapImportRow(record, mapping)
+    const errors = await validateRow(product, defaults)
+    if (errors.length > 0) {
+      rowErrors.push({ row: index + 1, errors })
+    } else {
+      validRows.push({ row: index + 1, product })
+    }
+  }
+
+  // Resolution is part of the preview so unknown ingredients show up before importing
+  const resolve = await createIngredientResolver(validRows.flatMap(({ product }) => product.ingredients as string[]))
+  for (const validRow of validRows) {
+    Object.assign(validRow.product, resolve(validRow.product.ingredients as string[]))
+  }
+
+  let inserted = 0
+  if (!dryRun && validRows.length > 0) {
+    const products = await Product.insertMany(
+      validRows.map(({ product }) => ({ ...product, ...defaults })),
+      { ordered: false }
+    )
+    inserted = products.length
+  }
+
+  return {
+    dryRun,
+    total: records.length,
+    valid: validRows.length,
+    inserted,
+    failed: rowErrors.length,
+    errors: rowErrors,
+    ...(dryRun && { preview: validRows }),
+  }
+}
@@ -0,0 +1,32 @@
+import { EventEmitter } from 'events'
+
+export type ReportStage = 'queued' | 'calling_ai' | 'scoring' | 'saved' | 'failed'
+
+export interface ReportEvent {
+  reportId: string
+  stage: ReportStage
+  at: string
+  message?: string
+  data?: unknown
+}
+
+// In-process bus: the report worker runs in the API process, so subscribers see every
+// stage published while they are connected.
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0)
+
+export const publishReportEvent = (
+  reportId: { toString(): string },
+  stage: ReportStage,
+  extra: Pick<ReportEvent, 'message' | 'data'> = {}
+) => {
+  const event: ReportEvent = { reportId: reportId.toString(), stage, at: new Date().toISOString(), ...extra }
+  emitter.emit(event.reportId, event)
+}
+
+export const subscribeToReport = (reportId: string, listener: (event: ReportEvent) => void) => {
+  emitter.on(reportId, listener)
+  return () => {
+    emitter.off(reportId, listener)
+  }
+}
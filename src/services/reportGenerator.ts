@@ -0,0 +1,61 @@
+import mongoose from 'mongoose'
+import { Report, IReport } from '../models/Report'
+import { Product } from '../models/Product'
+import { aiClient, getFallbackReason } from './aiClient'
+import { generateFallbackAnalysis } from './fallbackEngine'
+import { computeTransparencyScore, getActiveRubric } from './scoring'
+import { publishReportEvent } from './reportEvents'
+
+export interface GenerateReportOptions {
+  // Checked right before the result is saved; false discards it, e.g. when a job has lost its lock
+  canSave?: () => Promise<boolean>
+}
+
+/**
+ * Runs the AI analysis for a pending report and saves the result, moving the
+ * report to `completed`. Throws if the report or its product no longer exists,
+ * or if `canSave` refuses the write.
+ */
+export const generateReport = async (
+  reportId: mongoose.Types.ObjectId | string,
+  { canSave }: GenerateReportOptions = {}
+): Promise<IReport> => {
+  const report = await Report.findById(reportId)
+  if (!report) throw new Error('Report not found')
+
+  const product = await Product.findById(report.productId)
+  if (!product) throw new Error('Product not found')
+
+  const answers = report.answers || {}
+
+  // 🔗 Call AI microservice
+  // The client validates and sanitizes the payload; any failure falls back to the rule engine
+  let aiAnalysis
+  let fallbackReason: string | undefined
+  publishReportEvent(report._id, 'calling_ai')
+  try {
+    aiAnalysis = await aiClient.analyzeProduct(product.toObject(), answers)
+  } catch (aiError) {
+    fallbackReason = getFallbackReason(aiError)
+    console.warn('⚠️ AI analysis unavailable, using fallback:', (aiError as Error).message)
+    aiAnalysis = generateFallbackAnalysis(product.toObject(), answers)
+  }
+
+  publishReportEvent(report._id, 'scoring', { message: fallbackReason ? 'Using rule-based fallback analysis' : undefined })
+  report.summary = aiAnalysis.summary
+  const rubric = await getActiveRubric(product.category)
+  const breakdown = computeTransparencyScore(aiAnalysis, product.toObject(), answers, rubric)
+  report.transparencyScore = breakdown.total
+  report.scoreBreakdown = breakdown
+  report.analysis = aiAnalysis.analysis
+  report.analysisSource = fallbackReason ? 'fallback' : 'ai'
+  report.fallbackReason = fallbackReason
+  report.status = 'completed'
+  if (canSave && !(await canSave())) throw new Error('Report result discarded: the job is no longer held by this worker')
+  await report.save()
+
+  await report.populate('productId', 'name brand category ingredients description')
+  publishReportEvent(report._id, 'saved', { data: report.toJSON() })
+
+  return report
+}
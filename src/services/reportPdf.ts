@@ -0,0 +1,165 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import PDFDocument from 'pdfkit'
+import { IReport } from '../models/Report'
+
+const BRAND_NAME = 'VeriScope AI'
+const BRAND_COLOR = '#1f6f5c'
+const MUTED_COLOR = '#555555'
+
+const PDF_DIR = path.resolve(process.env.UPLOAD_PATH || './uploads', 'reports')
+
+const SCORE_COLORS: Record<string, string> = {
+  Excellent: '#1f8a4c',
+  Good: '#3c7dd9',
+  Fair: '#d99a1e',
+  'Needs Improvement': '#c9453a',
+}
+
+// The cache key changes whenever the report or its product is updated, so a stale
+// file is never served after an edit.
+const getPdfVersion = (report: IReport): string => {
+  const product: any = report.productId
+  const stamp = [
+    report._id.toString(),
+    report.updatedAt?.getTime?.() ?? '',
+    product?.updatedAt ? new Date(product.updatedAt).getTime() : '',
+  ].join('|')
+  return crypto.createHash('sha1').update(stamp).digest('hex').slice(0, 12)
+}
+
+const getPdfPath = (reportId: string, version: string) => path.join(PDF_DIR, `report-${reportId}-${version}.pdf`)
+
+export const getReportPdfUrl = (report: IReport) => `/api/reports/${report._id}/pdf?v=${getPdfVersion(report)}`
+
+export const removeCachedReportPdfs = async (reportId: string, keep?: string): Promise<void> => {
+  let files: string[]
+  try {
+    files = await fs.promises.readdir(PDF_DIR)
+  } catch {
+    return
+  }
+
+  await Promise.all(
+    files
+      .filter(file => file.startsWith(`report-${reportId}-`) && file !== keep)
+      .map(file => fs.promises.unlink(path.join(PDF_DIR, file)).catch(() => undefined))
+  )
+}
+
+const writeSectionTitle = (doc: PDFKit.PDFDocument, title: string) => {
+  doc.moveDown(1)
+  doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(14).text(title)
+  doc.moveTo(doc.x, doc.y + 2).lineTo(doc.page.width - doc.page.margins.right, doc.y + 2).strokeColor(BRAND_COLOR).lineWidth(0.5).stroke()
+  doc.moveDown(0.5)
+  doc.fillColor('black').font('Helvetica').fontSize(11)
+}
+
+const writeList = (doc: PDFKit.PDFDocument, items: string[] | undefined, emptyText: string) => {
+  if (!items || items.length === 0) {
+    doc.fillColor(MUTED_COLOR).text(emptyText).fillColor('black')
+    return
+  }
+  doc.list(items, { bulletRadius: 2, paragraphGap: 3 })
+}
+
+const writeField = (doc: PDFKit.PDFDocument, label: string, value?: string) => {
+  if (!value) return
+  doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value)
+}
+
+const renderReport = (doc: PDFKit.PDFDocument, report: IReport) => {
+  const product: any = report.productId || {}
+  const scoreCategory: string = (report as any).scoreCategory
+  const scoreColor = SCORE_COLORS[scoreCategory] || BRAND_COLOR
+
+  // Header band
+  doc.rect(0, 0, doc.page.width, 80).fill(BRAND_COLOR)
+  doc.fillColor('white').font('Helvetica-Bold').fontSize(22).text(BRAND_NAME, 50, 24)
+  doc.font('Helvetica').fontSize(11).text('Product Transparency Report', 50, 52)
+  doc.fillColor('black').moveDown(3)
+  doc.x = doc.page.margins.left
+
+  doc.font('Helvetica-Bold').fontSize(18).text(product.name || 'Unnamed product')
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR)
+    .text(`Report ID ${report._id} · Generated ${new Date().toISOString().slice(0, 10)}`)
+    .fillColor('black')
+
+  // Score block
+  doc.moveDown(1)
+  const scoreTop = doc.y
+  doc.roundedRect(doc.page.margins.left, scoreTop, 160, 70, 6).fill(scoreColor)
+  doc.fillColor('white').font('Helvetica-Bold').fontSize(30)
+    .text(`${report.transparencyScore ?? 'N/A'}`, doc.page.margins.left, scoreTop + 10, { width: 160, align: 'center' })
+  doc.font('Helvetica').fontSize(10)
+    .text(`Transparency score · ${scoreCategory}`, doc.page.margins.left, scoreTop + 48, { width: 160, align: 'center' })
+  doc.fillColor('black')
+  doc.x = doc.page.margins.left
+  doc.y = scoreTop + 80
+
+  writeSectionTitle(doc, 'Summary')
+  doc.text(report.summary || 'No summary available.', { align: 'justify' })
+
+  writeSectionTitle(doc, 'Product details')
+  writeField(doc, 'Brand', product.brand)
+  writeField(doc, 'Category', product.category)
+  writeField(doc, 'Ingredients', (product.ingredients || []).join(', '))
+  writeField(doc, 'Certifications', (product.certifications || []).join(', '))
+  writeField(doc, 'Packaging', product.packaging)
+  writeField(doc, 'Sustainability', product.sustainability)
+  if (product.description) {
+    doc.moveDown(0.5).text(product.description, { align: 'justify' })
+  }
+
+  writeSectionTitle(doc, 'Strengths')
+  writeList(doc, report.analysis?.strengths, 'No strengths recorded.')
+
+  writeSectionTitle(doc, 'Areas for improvement')
+  writeList(doc, report.analysis?.improvements, 'No improvements recorded.')
+
+  writeSectionTitle(doc, 'Recommendations')
+  writeList(doc, report.analysis?.recommendations, 'No recommendations recorded.')
+
+  doc.moveDown(2).fontSize(8).fillColor(MUTED_COLOR)
+    .text(`Generated by ${BRAND_NAME}. Scores reflect the information disclosed at the time of the report.`, { align: 'center' })
+}
+
+/**
+ * Returns the path of a rendered PDF for the report, rendering it first when no
+ * cached copy exists for the current version. Expects `productId` to be populated.
+ */
+export const getReportPdf = async (report: IReport): Promise<string> => {
+  const reportId = report._id.toString()
+  const filePath = getPdfPath(reportId, getPdfVersion(report))
+
+  if (fs.existsSync(filePath)) return filePath
+
+  await fs.promises.mkdir(PDF_DIR, { recursive: true })
+
+  // Render to a temp file first so a half-written PDF is never served from the cache
+  // The random suffix keeps concurrent renders of the same version from sharing a temp file
+  const tmpPath = `${filePath}.${crypto.randomUUID()}.tmp`
+  await new Promise<void>((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: { Title: `Transparency report ${reportId}`, Author: BRAND_NAME },
+    })
+    const stream = fs.createWriteStream(tmpPath)
+    stream.on('finish', () => resolve())
+    stream.on('error', reject)
+    doc.on('error', reject)
+    doc.pipe(stream)
+    renderReport(doc, report)
+    doc.end()
+  }).catch(async error => {
+    await fs.promises.unlink(tmpPath).catch(() => undefined)
+    throw error
+  })
+  await fs.promises.rename(tmpPath, filePath)
+
+  await removeCachedReportPdfs(reportId, path.basename(filePath))
+
+  return filePath
+}
@@ -0,0 +1,168 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { Report, IReport } from '../models/Report'
+import { ReportJob, IReportJob } from '../models/ReportJob'
+import { generateReport } from './reportGenerator'
+import { publishReportEvent } from './reportEvents'
+
+// Jobs live in MongoDB, so queued work survives restarts. A running job renews its lock
+// while it works; one left `running` by a crashed process is picked up again once its
+// lock is older than LOCK_TIMEOUT_MS.
+const POLL_INTERVAL_MS = Number(process.env.REPORT_WORKER_POLL_MS) || 2000
+const LOCK_TIMEOUT_MS = Number(process.env.REPORT_JOB_LOCK_TIMEOUT_MS) || 5 * 60 * 1000
+const LOCK_RENEW_MS = Math.max(Math.floor(LOCK_TIMEOUT_MS / 3), 1000)
+const MAX_ATTEMPTS = Number(process.env.REPORT_JOB_MAX_ATTEMPTS) || 3
+const RETRY_DELAY_MS = 5000
+
+let timer: NodeJS.Timeout | null = null
+let ticking = false
+
+export const enqueueReportJob = async (report: IReport): Promise<IReportJob> => {
+  const job = await ReportJob.create({
+    reportId: report._id,
+    userId: report.userId,
+    maxAttempts: MAX_ATTEMPTS,
+  })
+  publishReportEvent(report._id, 'queued')
+  kickReportWorker()
+  return job
+}
+
+// Puts a failed job back in the queue with a fresh attempt budget; null if it is no longer failed
+export const retryReportJob = async (job: IReportJob): Promise<IReportJob | null> => {
+  const requeued = await ReportJob.findOneAndUpdate(
+    { _id: job._id, status: 'failed' },
+    {
+      $set: { status: 'queued', attempts: 0, runAt: new Date() },
+      $unset: { lastError: 1, lockedAt: 1, lockedBy: 1, completedAt: 1 },
+    },
+    { new: true }
+  )
+  if (!requeued) return null
+
+  await Report.updateOne({ _id: requeued.reportId }, { $set: { status: 'pending' } })
+  publishReportEvent(requeued.reportId, 'queued', { message: 'Retry requested' })
+  kickReportWorker()
+  return requeued
+}
+
+const recoverStaleJobs = async () => {
+  const result = await ReportJob.updateMany(
+    { status: 'running', lockedAt: { $lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+    { $set: { status: 'queued', runAt: new Date() }, $unset: { lockedAt: 1, lockedBy: 1 } }
+  )
+  if (result.modifiedCount > 0) {
+    console.warn(`⚠️ Requeued ${result.modifiedCount} stale report job(s)`)
+  }
+}
+
+// Atomically claims the next due job so concurrent workers never run the same one
+const claimNextJob = () => {
+  const now = new Date()
+  return ReportJob.findOneAndUpdate(
+    { status: 'queued', runAt: { $lte: now } },
+    { $set: { status: 'running', lockedAt: now, lockedBy: crypto.randomUUID(), startedAt: now }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  )
+}
+
+// Updates the job only while this claim still holds its lock
+const updateClaimedJob = (job: IReportJob, update: mongoose.UpdateQuery<IReportJob>) =>
+  ReportJob.findOneAndUpdate({ _id: job._id, status: 'running', lockedBy: job.lockedBy }, update, { new: true })
+
+// Extends the lock if this claim still holds it; false once another worker has taken the job over
+const renewLock = async (job: IReportJob) => {
+  const result = await ReportJob.updateOne({ _id: job._id, status: 'running', lockedBy: job.lockedBy }, { $set: { lockedAt: new Date() } })
+  return result.matchedCount > 0
+}
+
+const processJob = async (job: IReportJob) => {
+  const renewal = setInterval(() => {
+    renewLock(job)
+      .then(held => {
+        if (!held) console.warn(`⚠️ Report job ${job._id} lost its lock while running`)
+      })
+      .catch(error => console.error(`❌ Failed to renew lock on report job ${job._id}:`, (error as Error).message))
+  }, LOCK_RENEW_MS)
+  renewal.unref()
+
+  let error: unknown
+  try {
+    // A fresh renewal right before the save leaves a full lock timeout for the write, so no other worker can take over mid-save
+    await generateReport(job.reportId, { canSave: () => renewLock(job) })
+  } catch (caught) {
+    error = caught
+  } finally {
+    clearInterval(renewal)
+  }
+
+  if (error === undefined) {
+    const completed = await updateClaimedJob(job, {
+      $set: { status: 'completed', completedAt: new Date() },
+      $unset: { lastError: 1, lockedAt: 1, lockedBy: 1 },
+    })
+    if (!completed) console.warn(`⚠️ Report job ${job._id} finished after losing its lock`)
+    return
+  }
+
+  const message = (error as Error).message || 'Unknown error'
+  console.error(`❌ Report job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message)
+
+  const retry = job.attempts < job.maxAttempts
+  const runAt = new Date(Date.now() + RETRY_DELAY_MS * 2 ** (job.attempts - 1))
+  const updated = await updateClaimedJob(job, {
+    $set: {
+      lastError: message.slice(0, 1000),
+      ...(retry ? { status: 'queued', runAt } : { status: 'failed', completedAt: new Date() }),
+    },
+    $unset: { lockedAt: 1, lockedBy: 1 },
+  })
+  // Another worker has taken the job over, so its outcome is no longer ours to record
+  if (!updated) {
+    console.warn(`⚠️ Report job ${job._id} failed after losing its lock`)
+    return
+  }
+
+  if (retry) {
+    publishReportEvent(job.reportId, 'queued', { message: `Attempt ${job.attempts} failed, retrying at ${runAt.toISOString()}` })
+  } else {
+    await Report.updateOne({ _id: job.reportId }, { $set: { status: 'failed' } })
+    publishReportEvent(job.reportId, 'failed', { message })
+  }
+}
+
+const tick = async () => {
+  if (ticking || mongoose.connection.readyState !== 1) return
+  ticking = true
+  try {
+    await recoverStaleJobs()
+    let job = await claimNextJob()
+    while (job) {
+      await processJob(job)
+      job = await claimNextJob()
+    }
+  } catch (error) {
+    console.error('❌ Report worker error:', error)
+  } finally {
+    ticking = false
+  }
+}
+
+// Runs a poll immediately instead of waiting for the next interval
+export const kickReportWorker = () => {
+  if (timer) void tick()
+}
+
+export const startReportWorker = () => {
+  if (timer) return
+  timer = setInterval(() => void tick(), POLL_INTERVAL_MS)
+  timer.unref()
+  console.log('🛠️ Report worker started')
+  void tick()
+}
+
+export const stopReportWorker = () => {
+  if (!timer) return
+  clearInterval(timer)
+  timer = null
+}
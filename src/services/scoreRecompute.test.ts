@@ -0,0 +1,18 @@
+import { parseRangeEnd } from './scoreRecompute'
+
+describe('scoreRecompute', () => {
+  describe('parseRangeEnd', () => {
+    it('includes the whole day for a date without a time', () => {
+      expect(parseRangeEnd('2026-01-31').toISOString()).toBe('2026-01-31T23:59:59.999Z')
+    })
+
+    it('rolls over month and year ends', () => {
+      expect(parseRangeEnd('2024-02-29').toISOString()).toBe('2024-02-29T23:59:59.999Z')
+      expect(parseRangeEnd('2025-12-31').toISOString()).toBe('2025-12-31T23:59:59.999Z')
+    })
+
+    it('keeps an explicit time as given', () => {
+      expect(parseRangeEnd('2026-01-31T12:30:00Z').toISOString()).toBe('2026-01-31T12:30:00.000Z')
+    })
+  })
+})
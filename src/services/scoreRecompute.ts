@@ -0,0 +1,170 @@
+import mongoose from 'mongoose'
+import { Report, IReport } from '../models/Report'
+import { Product, IProduct } from '../models/Product'
+import { ScoreRecomputeRun, IScoreRecomputeRun } from '../models/ScoreRecomputeRun'
+import { calculateFallbackScore } from './fallbackEngine'
+import { getActiveRubric, scoreFromComponents, ScoreBreakdown, ScoringRubricConfig } from './scoring'
+
+const BATCH_SIZE = 100
+// Dry runs keep every diff up to this cap; the counters stay exact beyond it
+const MAX_STORED_DIFFS = 1000
+
+export interface RecomputeProgress {
+  runId: string
+  total: number
+  processed: number
+  changed: number
+  failed: number
+}
+
+// Runs executing in this process, so the same run is never processed twice at once
+const activeRuns = new Set<string>()
+
+export const isRecomputeRunActive = (runId: string) => activeRuns.has(runId)
+
+/**
+ * Parses the inclusive end of a run's date filter. A date without a time covers that
+ * whole day, so it becomes the day's last millisecond rather than its first.
+ */
+export const parseRangeEnd = (value: string): Date => {
+  const end = new Date(value)
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    end.setUTCDate(end.getUTCDate() + 1)
+    end.setTime(end.getTime() - 1)
+  }
+  return end
+}
+
+const buildReportQuery = async (run: IScoreRecomputeRun) => {
+  const query: Record<string, any> = { transparencyScore: { $exists: true } }
+  const { category, from, to, status } = run.filter || {}
+
+  if (status) query.status = status
+  if (from || to) {
+    query.createdAt = {}
+    if (from) query.createdAt.$gte = from
+    if (to) query.createdAt.$lte = to
+  }
+  if (category) {
+    query.productId = { $in: await Product.find({ category }).distinct('_id') }
+  }
+  return query
+}
+
+/**
+ * Rescores a report from its stored answers and product data with the current rubric.
+ * The AI base score saved in the breakdown is reused; reports scored before breakdowns
+ * were stored fall back to the deterministic rule-based base.
+ */
+export const recomputeReportScore = (
+  report: IReport,
+  product: IProduct,
+  rubric: ScoringRubricConfig
+): ScoreBreakdown => {
+  const answers = report.answers || {}
+  const answeredCount = Object.keys(answers).length
+  const stored = report.scoreBreakdown
+
+  return scoreFromComponents(
+    {
+      base: stored ? stored.base : calculateFallbackScore(product.toObject(), answers).transparencyScore,
+      baseSource: stored ? stored.baseSource : 'fallback',
+      answeredCount,
+      questionCount: stored ? Math.max(stored.questionCount, 1) : Math.max(1, answeredCount),
+      category: product.category,
+    },
+    rubric
+  )
+}
+
+const processBatch = async (run: IScoreRecomputeRun, reports: IReport[], rubrics: Map<string, ScoringRubricConfig>) => {
+  const productIds = Array.from(new Set(reports.map(report => report.productId.toString())))
+  const products = new Map((await Product.find({ _id: { $in: productIds } })).map(p => [p._id.toString(), p]))
+
+  for (const report of reports) {
+    try {
+      const product = products.get(report.productId.toString())
+      if (!product) throw new Error('Product not found')
+
+      if (!rubrics.has(product.category)) rubrics.set(product.category, await getActiveRubric(product.category))
+      const breakdown = recomputeReportScore(report, product, rubrics.get(product.category)!)
+
+      if (breakdown.total !== report.transparencyScore) {
+        run.changed += 1
+        if (run.diffs.length < MAX_STORED_DIFFS) {
+          run.diffs.push({
+            reportId: report._id,
+            before: report.transparencyScore,
+            after: breakdown.total,
+            rubricVersionBefore: report.scoreBreakdown?.rubricVersion,
+            rubricVersionAfter: breakdown.rubricVersion,
+          })
+        }
+      }
+
+      if (!run.dryRun) {
+        await Report.updateOne({ _id: report._id }, { $set: { transparencyScore: breakdown.total, scoreBreakdown: breakdown } })
+      }
+    } catch (error) {
+      run.failed += 1
+      console.error(`❌ Recompute failed for report ${report._id}:`, (error as Error).message)
+    }
+
+    run.processed += 1
+    run.lastProcessedId = report._id
+  }
+}
+
+/**
+ * Processes a recompute run from its checkpoint to the end, saving progress after
+ * every batch so an interrupted or failed run can be resumed.
+ */
+export const runScoreRecompute = async (
+  runId: mongoose.Types.ObjectId | string,
+  onProgress?: (progress: RecomputeProgress) => void
+): Promise<IScoreRecomputeRun> => {
+  const key = runId.toString()
+  if (activeRuns.has(key)) throw new Error('Recompute run is already in progress')
+
+  const run = await ScoreRecomputeRun.findById(runId)
+  if (!run) throw new Error('Recompute run not found')
+  if (run.status === 'completed') return run
+
+  activeRuns.add(key)
+  try {
+    const query = await buildReportQuery(run)
+    if (!run.startedAt) {
+      run.startedAt = new Date()
+      run.total = await Report.countDocuments(query)
+    }
+    run.status = 'running'
+    run.error = undefined
+    await run.save()
+
+    // Rubrics are resolved once per run so every report is scored consistently
+    const rubrics = new Map<string, ScoringRubricConfig>()
+
+    for (;;) {
+      const batchQuery = run.lastProcessedId ? { ...query, _id: { $gt: run.lastProcessedId } } : query
+      const reports = await Report.find(batchQuery).sort({ _id: 1 }).limit(BATCH_SIZE)
+      if (reports.length === 0) break
+
+      await processBatch(run, reports, rubrics)
+      await run.save()
+
+      onProgress?.({ runId: key, total: run.total, processed: run.processed, changed: run.changed, failed: run.failed })
+    }
+
+    run.status = 'completed'
+    run.completedAt = new Date()
+    await run.save()
+    return run
+  } catch (error) {
+    run.status = 'failed'
+    run.error = ((error as Error).message || 'Unknown error').slice(0, 1000)
+    await run.save().catch(() => undefined)
+    throw error
+  } finally {
+    activeRuns.delete(key)
+  }
+}
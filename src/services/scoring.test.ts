@@ -0,0 +1,183 @@
+import { ScoringRubric } from '../models/ScoringRubric'
+import { calculateFallbackScore } from './fallbackEngine'
+import {
+  computeTransparencyScore,
+  explainScoreBreakdown,
+  getActiveRubric,
+  getDefaultRubric,
+  scoreFromComponents,
+  ScoreComponents,
+  ScoringRubricConfig,
+} from './scoring'
+
+jest.mock('../models/ScoringRubric', () => ({
+  ScoringRubric: { findOne: jest.fn() },
+}))
+
+const mockedRubric = ScoringRubric as unknown as { findOne: jest.Mock }
+
+const SKINCARE = getDefaultRubric('Skincare')
+
+const components = (overrides: Partial<ScoreComponents> = {}): ScoreComponents => ({
+  base: 80,
+  baseSource: 'ai',
+  answeredCount: 4,
+  questionCount: 5,
+  category: 'Skincare',
+  ...overrides,
+})
+
+describe('scoring', () => {
+  describe('rubrics', () => {
+    it('uses the built-in category bonus for known categories', () => {
+      expect(SKINCARE).toEqual({
+        category: 'Skincare',
+        version: 0,
+        weights: { ai: 0.6, completeness: 0.4 },
+        completenessThreshold: 0.5,
+        categoryBonus: 5,
+        maxIncompletenessPenalty: 5,
+      })
+    })
+
+    it('treats unknown categories as Other', () => {
+      expect(getDefaultRubric('Toys')).toMatchObject({ category: 'Other', categoryBonus: 0 })
+    })
+
+    it('loads the active rubric for the category', async () => {
+      const stored = {
+        category: 'Skincare',
+        version: 3,
+        weights: { ai: 0.5, completeness: 0.5 },
+        completenessThreshold: 0.6,
+        categoryBonus: 8,
+        maxIncompletenessPenalty: 10,
+        isActive: true,
+        createdBy: 'admin',
+      }
+      mockedRubric.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(stored) })
+
+      const { isActive, createdBy, ...config } = stored
+      await expect(getActiveRubric('Skincare')).resolves.toEqual(config)
+      expect(mockedRubric.findOne).toHaveBeenCalledWith({ category: 'Skincare', isActive: true })
+    })
+
+    it('falls back to the defaults when no rubric is active', async () => {
+      mockedRubric.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(null) })
+      await expect(getActiveRubric('Skincare')).resolves.toEqual(SKINCARE)
+    })
+  })
+
+  describe('scoreFromComponents', () => {
+    it('weights the base and completeness and adds the category bonus', () => {
+      // 80 × 0.6 + 80% × 0.4 = 80, plus the Skincare bonus of 5
+      expect(scoreFromComponents(components(), SKINCARE)).toEqual({
+        base: 80,
+        baseSource: 'ai',
+        answeredCount: 4,
+        questionCount: 5,
+        completenessRatio: 0.8,
+        category: 'Skincare',
+        categoryBonus: 5,
+        penalty: 0,
+        weights: { ai: 0.6, completeness: 0.4 },
+        completenessThreshold: 0.5,
+        rubricVersion: 0,
+        total: 85,
+      })
+    })
+
+    it('applies a penalty instead of the bonus below the completeness threshold', () => {
+      // 50 × 0.6 + 25% × 0.4 = 40, minus floor(0.75 × 5) = 3
+      const breakdown = scoreFromComponents(components({ base: 50, answeredCount: 1, questionCount: 4 }), SKINCARE)
+
+      expect(breakdown).toMatchObject({ categoryBonus: 0, penalty: 3, total: 37 })
+    })
+
+    it('applies the bonus exactly at the threshold', () => {
+      expect(scoreFromComponents(components({ answeredCount: 2, questionCount: 4 }), SKINCARE)).toMatchObject({ categoryBonus: 5, penalty: 0 })
+    })
+
+    it('clamps the total to 0-100', () => {
+      expect(scoreFromComponents(components({ base: 100, answeredCount: 5 }), SKINCARE).total).toBe(100)
+      const harsh: ScoringRubricConfig = { ...SKINCARE, maxIncompletenessPenalty: 50 }
+      expect(scoreFromComponents(components({ base: 0, answeredCount: 0 }), harsh).total).toBe(0)
+    })
+
+    it('caps completeness at 100% and treats no questions as 0%', () => {
+      expect(scoreFromComponents(components({ answeredCount: 9, questionCount: 3 }), SKINCARE).completenessRatio).toBe(1)
+      expect(scoreFromComponents(components({ answeredCount: 0, questionCount: 0 }), SKINCARE).completenessRatio).toBe(0)
+    })
+
+    it('records the rubric it was scored with', () => {
+      const rubric: ScoringRubricConfig = { ...SKINCARE, version: 4, weights: { ai: 1, completeness: 0 }, categoryBonus: 0 }
+      expect(scoreFromComponents(components(), rubric)).toMatchObject({ rubricVersion: 4, weights: { ai: 1, completeness: 0 }, total: 80 })
+    })
+  })
+
+  describe('computeTransparencyScore', () => {
+    const product = { name: 'Cream', category: 'Skincare', ingredients: ['Aqua', 'Glycerin'] }
+    const answers = { a: 'yes', b: 'no' }
+
+    it('uses the AI score and the number of questions it asked', () => {
+      const aiResult = { transparencyScore: 72.6, questions: [{}, {}, {}, {}] }
+      expect(computeTransparencyScore(aiResult, product, answers, SKINCARE)).toMatchObject({
+        base: 73,
+        baseSource: 'ai',
+        answeredCount: 2,
+        questionCount: 4,
+      })
+    })
+
+    it('accepts the legacy score field and expected questions', () => {
+      const aiResult = { score: '64', expectedQuestions: ['q1', 'q2'] }
+      expect(computeTransparencyScore(aiResult, product, answers, SKINCARE)).toMatchObject({ base: 64, questionCount: 2 })
+    })
+
+    it('falls back to the rule-based score without an AI score', () => {
+      const breakdown = computeTransparencyScore({ summary: 'x' }, product, answers, SKINCARE)
+
+      expect(breakdown.baseSource).toBe('fallback')
+      expect(breakdown.base).toBe(calculateFallbackScore(product, answers).transparencyScore)
+      expect(breakdown.questionCount).toBe(2)
+    })
+
+    it('uses the default rubric for the product category when none is given', () => {
+      expect(computeTransparencyScore({ transparencyScore: 50 }, { category: 'Electronics' }, {})).toMatchObject({
+        categoryBonus: 0,
+        rubricVersion: 0,
+      })
+    })
+
+    it('is deterministic', () => {
+      const aiResult = { transparencyScore: 70 }
+      expect(computeTransparencyScore(aiResult, product, answers, SKINCARE)).toEqual(computeTransparencyScore(aiResult, product, answers, SKINCARE))
+    })
+  })
+
+  describe('explainScoreBreakdown', () => {
+    it('explains every component with its points', () => {
+      const explanations = explainScoreBreakdown(scoreFromComponents(components(), SKINCARE))
+
+      expect(explanations.map(({ component, points }) => [component, points])).toEqual([
+        ['base', 48],
+        ['completeness', 32],
+        ['categoryBonus', 5],
+        ['penalty', -0],
+        ['total', 85],
+      ])
+      expect(explanations[0].explanation).toBe('The AI analysis rated the product 80/100. Weighted at 60%, this contributes 48 points.')
+      expect(explanations[4].explanation).toContain('(scored with the default rubric)')
+    })
+
+    it('explains a missed bonus and the penalty', () => {
+      const breakdown = scoreFromComponents(components({ base: 50, baseSource: 'fallback', answeredCount: 1, questionCount: 4 }), { ...SKINCARE, version: 2 })
+      const [base, , bonus, penalty, total] = explainScoreBreakdown(breakdown)
+
+      expect(base.explanation).toContain('The rule-based fallback analysis rated the product 50/100')
+      expect(bonus.explanation).toBe('The category bonus requires at least 50% of questions to be answered, so it was not applied.')
+      expect(penalty).toMatchObject({ points: -3 })
+      expect(total.explanation).toContain('(scored with version 2 of the Skincare rubric)')
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import { calculateFallbackScore } from './fallbackEngine'
+import { PRODUCT_CATEGORIES, ProductCategory } from '../models/Product'
+import { ScoringRubric } from '../models/ScoringRubric'
+
+export interface ScoreWeights {
+  ai: number
+  completeness: number
+}
+
+export interface ScoringRubricConfig {
+  category: ProductCategory
+  // 0 identifies the built-in defaults used when no rubric has been configured
+  version: number
+  weights: ScoreWeights
+  completenessThreshold: number
+  categoryBonus: number
+  maxIncompletenessPenalty: number
+}
+
+export interface ScoreBreakdown {
+  base: number
+  baseSource: 'ai' | 'fallback'
+  answeredCount: number
+  questionCount: number
+  completenessRatio: number
+  category: string
+  categoryBonus: number
+  penalty: number
+  weights: ScoreWeights
+  completenessThreshold: number
+  rubricVersion: number
+  total: number
+}
+
+export interface ScoreExplanation {
+  component: 'base' | 'completeness' | 'categoryBonus' | 'penalty' | 'total'
+  points: number
+  explanation: string
+}
+
+// category sensitivity: certain categories are expected to have more detailed disclosures
+const DEFAULT_CATEGORY_BONUS: Record<ProductCategory, number> = {
+  Skincare: 5,
+  'Food & Beverage': 4,
+  'Personal Care': 3,
+  'Cleaning Products': 3,
+  Clothing: 2,
+  Electronics: 1,
+  Other: 0,
+}
+
+export const getDefaultRubric = (category: string): ScoringRubricConfig => {
+  const known = (PRODUCT_CATEGORIES as readonly string[]).includes(category) ? (category as ProductCategory) : 'Other'
+  return {
+    category: known,
+    version: 0,
+    weights: { ai: 0.6, completeness: 0.4 },
+    completenessThreshold: 0.5,
+    categoryBonus: DEFAULT_CATEGORY_BONUS[known],
+    maxIncompletenessPenalty: 5,
+  }
+}
+
+// The active rubric for a category, or the built-in defaults when none is configured
+export const getActiveRubric = async (category: string): Promise<ScoringRubricConfig> => {
+  const rubric = await ScoringRubric.findOne({ category, isActive: true }).lean()
+  if (!rubric) return getDefaultRubric(category)
+
+  return {
+    category: rubric.category,
+    version: rubric.version,
+    weights: { ai: rubric.weights.ai, completeness: rubric.weights.completeness },
+    completenessThreshold: rubric.completenessThreshold,
+    categoryBonus: rubric.categoryBonus,
+    maxIncompletenessPenalty: rubric.maxIncompletenessPenalty,
+  }
+}
+
+export interface ScoreComponents {
+  base: number
+  baseSource: 'ai' | 'fallback'
+  answeredCount: number
+  questionCount: number
+  category: string
+}
+
+/**
+ * Applies a rubric to already-derived score components. Used directly when
+ * recomputing stored reports, where the original AI response is no longer available.
+ */
+export const scoreFromComponents = (components: ScoreComponents, rubric: ScoringRubricConfig): ScoreBreakdown => {
+  const { base, answeredCount, questionCount } = components
+  const completenessRatio = questionCount > 0 ? Math.min(1, answeredCount / questionCount) : 0
+
+  // Weighted base and completeness, plus the category bonus when completeness is reasonable
+  const { weights } = rubric
+  const completenessPercent = Math.round(completenessRatio * 100)
+  let computed = Math.round((base * weights.ai) + (completenessPercent * weights.completeness))
+
+  let categoryBonus = 0
+  let penalty = 0
+  if (completenessRatio >= rubric.completenessThreshold) {
+    categoryBonus = rubric.categoryBonus
+    computed += categoryBonus
+  } else {
+    // small penalty if very incomplete
+    penalty = Math.max(0, Math.floor((1 - completenessRatio) * rubric.maxIncompletenessPenalty))
+    computed -= penalty
+  }
+
+  return {
+    base,
+    baseSource: components.baseSource,
+    answeredCount,
+    questionCount,
+    completenessRatio: Math.round(completenessRatio * 1000) / 1000,
+    category: components.category,
+    categoryBonus,
+    penalty,
+    weights: { ai: weights.ai, completeness: weights.completeness },
+    completenessThreshold: rubric.completenessThreshold,
+    rubricVersion: rubric.version,
+    // clamp to 0-100
+    total: Math.max(0, Math.min(100, computed)),
+  }
+}
+
+/**
+ * Combines the AI (or rule-based) base score with answer completeness and a category
+ * bonus, keeping every component so the final number can be explained later.
+ */
+export const computeTransparencyScore = (
+  aiResult: any,
+  productObj: any,
+  answersObj: any,
+  rubric: ScoringRubricConfig = getDefaultRubric(productObj?.category)
+): ScoreBreakdown => {
+  // base score from AI if provided, otherwise the deterministic rule-based score
+  const baseFromAI = Number(aiResult?.transparencyScore ?? aiResult?.score)
+  const baseSource = Number.isFinite(baseFromAI) ? 'ai' : 'fallback'
+  const base = Number.isFinite(baseFromAI)
+    ? Math.max(0, Math.min(100, Math.round(baseFromAI)))
+    : calculateFallbackScore(productObj, answersObj).transparencyScore
+
+  // determine number of questions the AI expected/asked (if available)
+  const aiQuestionsCount = Array.isArray(aiResult?.questions) ? aiResult.questions.length : (Array.isArray(aiResult?.expectedQuestions) ? aiResult.expectedQuestions.length : null)
+
+  // fallback: use number of answer keys provided by the frontend
+  const providedAnswersCount = answersObj && typeof answersObj === 'object' ? Object.keys(answersObj).length : 0
+
+  return scoreFromComponents(
+    {
+      base,
+      baseSource,
+      answeredCount: providedAnswersCount,
+      questionCount: aiQuestionsCount ?? Math.max(1, providedAnswersCount),
+      category: (productObj?.category || '').toString(),
+    },
+    rubric
+  )
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`
+
+export const explainScoreBreakdown = (breakdown: ScoreBreakdown): ScoreExplanation[] => {
+  const { base, baseSource, weights, completenessRatio, completenessThreshold } = breakdown
+  const basePoints = Math.round(base * weights.ai * 10) / 10
+  const completenessPoints = Math.round(Math.round(completenessRatio * 100) * weights.completeness * 10) / 10
+  const rater = baseSource === 'ai' ? 'The AI analysis' : 'The rule-based fallback analysis'
+
+  return [
+    {
+      component: 'base',
+      points: basePoints,
+      explanation: `${rater} rated the product ${base}/100. Weighted at ${percent(weights.ai)}, this contributes ${basePoints} points.`,
+    },
+    {
+      component: 'completeness',
+      points: completenessPoints,
+      explanation:
+        `${breakdown.answeredCount} of ${breakdown.questionCount} expected questions were answered (${percent(completenessRatio)} complete). ` +
+        `Weighted at ${percent(weights.completeness)}, this contributes ${completenessPoints} points.`,
+    },
+    {
+      component: 'categoryBonus',
+      points: breakdown.categoryBonus,
+      explanation: completenessRatio >= completenessThreshold
+        ? breakdown.categoryBonus > 0
+          ? `${breakdown.category} products receive a +${breakdown.categoryBonus} bonus because at least ${percent(completenessThreshold)} of questions were answered.`
+          : `${breakdown.category || 'This'} category has no bonus.`
+        : `The category bonus requires at least ${percent(completenessThreshold)} of questions to be answered, so it was not applied.`,
+    },
+    {
+      component: 'penalty',
+      points: -breakdown.penalty,
+      explanation: breakdown.penalty > 0
+        ? `A ${breakdown.penalty}-point penalty was applied because fewer than ${percent(completenessThreshold)} of questions were answered.`
+        : 'No incompleteness penalty was applied.',
+    },
+    {
+      component: 'total',
+      points: breakdown.total,
+      explanation:
+        `Rounded and limited to the 0-100 range, the components add up to a transparency score of ${breakdown.total} ` +
+        (breakdown.rubricVersion > 0
+          ? `(scored with version ${breakdown.rubricVersion} of the ${breakdown.category} rubric).`
+          : '(scored with the default rubric).'),
+    },
+  ]
+}
@@ -0,0 +1,110 @@
+import mongoose from 'mongoose'
+import { ApiKey } from '../models/ApiKey'
+import { StreamTicket } from '../models/StreamTicket'
+import { User } from '../models/User'
+import { consumeStreamTicket, createStreamTicket } from './streamTickets'
+import { AuthTokenError } from './tokens'
+
+jest.mock('../models/ApiKey', () => ({ ApiKey: { findById: jest.fn() } }))
+jest.mock('../models/StreamTicket', () => ({ StreamTicket: { create: jest.fn(), findOneAndUpdate: jest.fn() } }))
+jest.mock('../models/User', () => ({ User: { findById: jest.fn() } }))
+
+const mockedApiKey = ApiKey as unknown as { findById: jest.Mock }
+const mockedTicket = StreamTicket as unknown as { create: jest.Mock; findOneAndUpdate: jest.Mock }
+const mockedUser = User as unknown as { findById: jest.Mock }
+
+// Tickets stored by hash; findOneAndUpdate honours the single-use and expiry conditions
+let tickets: any[]
+let user: any
+let apiKey: any
+
+const expectAuthError = async (promise: Promise<unknown>, reason: string) => {
+  const error = await promise.then(
+    () => null,
+    (caught: unknown) => caught
+  )
+  expect(error).toBeInstanceOf(AuthTokenError)
+  expect((error as AuthTokenError).reason).toBe(reason)
+}
+
+describe('streamTickets', () => {
+  const reportId = new mongoose.Types.ObjectId()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    tickets = []
+    user = { _id: new mongoose.Types.ObjectId(), organizationId: new mongoose.Types.ObjectId(), isActive: true }
+    apiKey = { _id: new mongoose.Types.ObjectId(), userId: user._id, organizationId: user.organizationId, scopes: ['reports:read'] }
+
+    mockedTicket.create.mockImplementation(async (doc: any) => {
+      tickets.push({ ...doc, createdAt: new Date() })
+    })
+    mockedTicket.findOneAndUpdate.mockImplementation(async (filter: any, update: any) => {
+      const ticket = tickets.find(
+        doc =>
+          doc.ticketHash === filter.ticketHash &&
+          doc.reportId.toString() === filter.reportId &&
+          !doc.usedAt &&
+          doc.expiresAt > filter.expiresAt.$gt
+      )
+      return ticket ? Object.assign(ticket, update.$set) : null
+    })
+    mockedUser.findById.mockImplementation(async () => user)
+    mockedApiKey.findById.mockImplementation(async () => ({ ...apiKey, scopes: [...apiKey.scopes] }))
+  })
+
+  it('opens the stream once for the user it was issued to', async () => {
+    const { ticket } = await createStreamTicket(user, reportId)
+
+    await expect(consumeStreamTicket(ticket, reportId.toString())).resolves.toEqual({ user })
+    await expectAuthError(consumeStreamTicket(ticket, reportId.toString()), 'invalid')
+  })
+
+  it('rejects a ticket for another report', async () => {
+    const { ticket } = await createStreamTicket(user, reportId)
+    await expectAuthError(consumeStreamTicket(ticket, new mongoose.Types.ObjectId().toString()), 'invalid')
+  })
+
+  describe('API-key tickets', () => {
+    it('records the key and its scopes', async () => {
+      await createStreamTicket(user, reportId, apiKey)
+      expect(tickets[0]).toMatchObject({ apiKeyId: apiKey._id, scopes: ['reports:read'] })
+    })
+
+    it('returns the key so its scopes apply to the stream', async () => {
+      const { ticket } = await createStreamTicket(user, reportId, apiKey)
+      const result = await consumeStreamTicket(ticket, reportId.toString())
+
+      expect(result.apiKey!._id).toBe(apiKey._id)
+      expect(result.apiKey!.scopes).toEqual(['reports:read'])
+    })
+
+    it('never grants scopes added to the key after the ticket was issued', async () => {
+      const { ticket } = await createStreamTicket(user, reportId, apiKey)
+      apiKey.scopes = ['reports:read', 'products:write']
+
+      expect((await consumeStreamTicket(ticket, reportId.toString())).apiKey!.scopes).toEqual(['reports:read'])
+    })
+
+    it('drops scopes removed from the key since the ticket was issued', async () => {
+      const { ticket } = await createStreamTicket(user, reportId, apiKey)
+      apiKey.scopes = ['products:read']
+
+      expect((await consumeStreamTicket(ticket, reportId.toString())).apiKey!.scopes).toEqual([])
+    })
+
+    it('rejects the ticket once the key is revoked', async () => {
+      const { ticket } = await createStreamTicket(user, reportId, apiKey)
+      apiKey.revokedAt = new Date()
+
+      await expectAuthError(consumeStreamTicket(ticket, reportId.toString()), 'revoked')
+    })
+
+    it('rejects the ticket once the owner leaves the key organization', async () => {
+      const { ticket } = await createStreamTicket(user, reportId, apiKey)
+      user.organizationId = new mongoose.Types.ObjectId()
+
+      await expectAuthError(consumeStreamTicket(ticket, reportId.toString()), 'revoked')
+    })
+  })
+})
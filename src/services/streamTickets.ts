@@ -0,0 +1,62 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { ApiKey, IApiKey } from '../models/ApiKey'
+import { StreamTicket } from '../models/StreamTicket'
+import { User, IUser } from '../models/User'
+import { AuthTokenError } from './tokens'
+
+// Only needs to outlive the gap between fetching the ticket and opening the EventSource
+const STREAM_TICKET_TTL_SECONDS = 60
+
+const hashTicket = (ticket: string) => crypto.createHash('sha256').update(ticket).digest('hex')
+
+/**
+ * Issues a ticket that opens the given report's event stream once. Unlike an access token
+ * in the URL, a ticket that ends up in a log is already spent or about to expire. A ticket
+ * requested with an API key carries that key's scopes.
+ */
+export const createStreamTicket = async (user: IUser, reportId: mongoose.Types.ObjectId, apiKey?: IApiKey) => {
+  const ticket = crypto.randomBytes(32).toString('base64url')
+  await StreamTicket.create({
+    ticketHash: hashTicket(ticket),
+    userId: user._id,
+    reportId,
+    ...(apiKey && { apiKeyId: apiKey._id, scopes: apiKey.scopes }),
+    expiresAt: new Date(Date.now() + STREAM_TICKET_TTL_SECONDS * 1000),
+  })
+  return { ticket, expiresIn: STREAM_TICKET_TTL_SECONDS }
+}
+
+/**
+ * Marks the ticket used and returns who it was issued to, provided it was issued for this
+ * report. For API-key tickets the key must still be valid, and its scopes are narrowed to
+ * those recorded on the ticket.
+ */
+export const consumeStreamTicket = async (ticket: string, reportId: string): Promise<{ user: IUser; apiKey?: IApiKey }> => {
+  if (!mongoose.isValidObjectId(reportId)) throw new AuthTokenError('Invalid stream ticket', 'invalid')
+
+  const record = await StreamTicket.findOneAndUpdate(
+    { ticketHash: hashTicket(ticket), reportId, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  )
+  if (!record) throw new AuthTokenError('Stream ticket is invalid, expired or already used', 'invalid')
+
+  const user = await User.findById(record.userId)
+  if (!user || !user.isActive) throw new AuthTokenError('Not authorized, account is deactivated', 'revoked')
+  if (user.sessionsInvalidatedAt && user.sessionsInvalidatedAt > record.createdAt) {
+    throw new AuthTokenError('Not authorized, session has been revoked', 'revoked')
+  }
+  if (!record.apiKeyId) return { user }
+
+  const apiKey = await ApiKey.findById(record.apiKeyId)
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+    throw new AuthTokenError('API key is no longer valid', 'revoked')
+  }
+  if (!user._id.equals(apiKey.userId) || !user.organizationId?.equals(apiKey.organizationId)) {
+    throw new AuthTokenError('API key owner no longer has access', 'revoked')
+  }
+  const recorded = record.scopes ?? []
+  apiKey.scopes = apiKey.scopes.filter(scope => recorded.includes(scope))
+  return { user, apiKey }
+}
@@ -0,0 +1,143 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { Organization, IOrganization } from '../models/Organization'
+import { Product } from '../models/Product'
+import { Report } from '../models/Report'
+import { User, IUser } from '../models/User'
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'organization'
+
+// Slugs get a random suffix, so two companies with the same free-text name never share a tenant
+export const createOrganization = async (name: string, createdBy?: mongoose.Types.ObjectId): Promise<IOrganization> => {
+  const slug = `${slugify(name)}-${crypto.randomBytes(3).toString('hex')}`
+  return Organization.create({ name, slug, createdBy })
+}
+
+/**
+ * Returns the user's organization ID, provisioning an organization from the free-text
+ * `company` field for accounts created before tenancy existed. Their existing reports
+ * are moved into the new organization at the same time, along with any still unassigned
+ * products those reports are about.
+ */
+export const ensureUserOrganization = async (user: IUser): Promise<mongoose.Types.ObjectId> => {
+  if (user.organizationId) return user.organizationId
+
+  const organization = await createOrganization(user.company || `${user.name}'s organization`, user._id)
+  // Only claim the slot if no concurrent request provisioned one first
+  const result = await User.updateOne(
+    { _id: user._id, organizationId: { $exists: false } },
+    { $set: { organizationId: organization._id, organizationRole: 'owner' } }
+  )
+
+  if (result.modifiedCount === 0) {
+    await organization.deleteOne()
+    const fresh = await User.findById(user._id).select('organizationId organizationRole')
+    user.organizationId = fresh?.organizationId
+    user.organizationRole = fresh?.organizationRole
+    return user.organizationId!
+  }
+
+  user.organizationId = organization._id
+  user.organizationRole = 'owner'
+  await Report.updateMany(
+    { userId: user._id, organizationId: { $exists: false } },
+    { $set: { organizationId: organization._id } }
+  )
+  const productIds = await Report.find({ userId: user._id, organizationId: organization._id }).distinct('productId')
+  if (productIds.length > 0) {
+    await Product.updateMany(
+      { _id: { $in: productIds }, organizationId: { $exists: false } },
+      { $set: { organizationId: organization._id } }
+    )
+  }
+  return organization._id
+}
+
+export interface ProductBackfillResult {
+  assigned: number
+  // Products reported on from several organizations; each went to the one with most reports
+  shared: number
+  // Products nobody has reported on, left for an admin to assign
+  unassigned: number
+}
+
+const BACKFILL_BATCH_SIZE = 100
+
+/**
+ * Assigns products created before tenancy existed to an organization, taken from the
+ * reports written about them. Report owners without an organization get one first, as
+ * on their next login. Products without reports are counted and left unassigned.
+ */
+export const backfillProductOrganizations = async ({ dryRun = false } = {}): Promise<ProductBackfillResult> => {
+  const result: ProductBackfillResult = { assigned: 0, shared: 0, unassigned: 0 }
+  let lastId: mongoose.Types.ObjectId | undefined
+
+  for (;;) {
+    const products = await Product.find({ organizationId: { $exists: false }, ...(lastId && { _id: { $gt: lastId } }) })
+      .sort({ _id: 1 })
+      .limit(BACKFILL_BATCH_SIZE)
+      .select('_id')
+      .lean()
+    if (products.length === 0) break
+    lastId = products[products.length - 1]._id
+
+    for (const { _id: productId } of products) {
+      const reports = await Report.find({ productId }).sort({ createdAt: 1 }).select('userId organizationId').lean()
+
+      const counts = new Map<string, number>()
+      for (const report of reports) {
+        let key = report.organizationId?.toString()
+        if (!key && report.userId) {
+          const owner = await User.findById(report.userId)
+          // A dry run can't provision, so it counts the organization the owner would get
+          if (owner) key = dryRun ? owner.organizationId?.toString() ?? `user:${owner._id}` : (await ensureUserOrganization(owner)).toString()
+        }
+        if (key) counts.set(key, (counts.get(key) ?? 0) + 1)
+      }
+
+      if (counts.size === 0) {
+        result.unassigned += 1
+        continue
+      }
+      // Ties go to the organization that reported on the product first (Map keeps insertion order)
+      const [organizationId] = Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+      if (counts.size > 1) result.shared += 1
+      result.assigned += 1
+      if (!dryRun) {
+        await Product.updateOne({ _id: productId, organizationId: { $exists: false } }, { $set: { organizationId } })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Query filter restricting documents to the user's tenant. Admins see every tenant,
+ * optionally narrowed to one organization.
+ */
+export const getTenantFilter = (user: IUser, requestedOrganizationId?: unknown): Record<string, any> => {
+  if (user.role === 'admin') {
+    return typeof requestedOrganizationId === 'string' && mongoose.isValidObjectId(requestedOrganizationId)
+      ? { organizationId: new mongoose.Types.ObjectId(requestedOrganizationId) }
+      : {}
+  }
+  return { organizationId: user.organizationId }
+}
+
+/**
+ * Moves a user out of their organization into a fresh personal one, e.g. when an
+ * organization admin removes them. Products and reports stay with the old organization.
+ */
+export const detachFromOrganization = async (user: IUser): Promise<mongoose.Types.ObjectId> => {
+  await User.updateOne({ _id: user._id }, { $unset: { organizationId: 1, organizationRole: 1 } })
+  user.organizationId = undefined
+  user.organizationRole = undefined
+  return ensureUserOrganization(user)
+}
@@ -0,0 +1,224 @@
+import mongoose from 'mongoose'
+import { Session } from '../models/Session'
+import { User } from '../models/User'
+import { AuthTokenError, invalidateAllTokens, issueSession, rotateRefreshToken, verifyAccessToken } from './tokens'
+
+jest.mock('../models/Session', () => ({
+  Session: { create: jest.fn(), findById: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn(), updateMany: jest.fn() },
+}))
+jest.mock('../models/User', () => ({
+  User: { findById: jest.fn(), updateOne: jest.fn() },
+}))
+
+const mockedSession = Session as unknown as Record<'create' | 'findById' | 'findOneAndUpdate' | 'updateOne' | 'updateMany', jest.Mock>
+const mockedUser = User as unknown as Record<'findById' | 'updateOne', jest.Mock>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// In-memory sessions keyed by ID; updates follow MongoDB's matching rules for the filters tokens.ts uses
+let sessions: Map<string, any>
+let user: any
+
+const matches = (doc: any, filter: Record<string, any>) =>
+  Object.entries(filter).every(([key, value]) => {
+    if (value instanceof mongoose.Types.ObjectId || key === '_id') return doc[key]?.toString() === value.toString()
+    if (value === null) return doc[key] === undefined || doc[key] === null
+    return doc[key] === value
+  })
+
+const applySet = (doc: any, update: any) => Object.assign(doc, update.$set)
+
+const expectAuthError = async (promise: Promise<unknown>, reason: string) => {
+  const error = await promise.then(
+    () => null,
+    (caught: unknown) => caught
+  )
+  expect(error).toBeInstanceOf(AuthTokenError)
+  expect((error as AuthTokenError).reason).toBe(reason)
+}
+
+describe('tokens', () => {
+  const originalEnv = { ...process.env }
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret'
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    sessions = new Map()
+    user = { _id: new mongoose.Types.ObjectId(), isActive: true }
+
+    mockedSession.create.mockImplementation(async (doc: any) => {
+      const session = { _id: new mongoose.Types.ObjectId(), ...doc }
+      sessions.set(session._id.toString(), session)
+      return { ...session }
+    })
+    // Reads return snapshots, as real queries would
+    mockedSession.findById.mockImplementation((id: any) => ({
+      select: jest.fn().mockImplementation(async () => {
+        const session = sessions.get(id.toString())
+        return session ? { ...session } : null
+      }),
+    }))
+    mockedSession.findOneAndUpdate.mockImplementation(async (filter: any, update: any) => {
+      const session = Array.from(sessions.values()).find(doc => matches(doc, filter))
+      return session ? { ...applySet(session, update) } : null
+    })
+    mockedSession.updateOne.mockImplementation(async (filter: any, update: any) => {
+      const session = Array.from(sessions.values()).find(doc => matches(doc, filter))
+      if (session) applySet(session, update)
+      return { modifiedCount: session ? 1 : 0 }
+    })
+    mockedSession.updateMany.mockImplementation(async (filter: any, update: any) => {
+      const matched = Array.from(sessions.values()).filter(doc => matches(doc, filter))
+      matched.forEach(doc => applySet(doc, update))
+      return { modifiedCount: matched.length }
+    })
+    mockedUser.findById.mockImplementation(async (id: any) => (user._id.equals(id) ? user : null))
+    mockedUser.updateOne.mockResolvedValue({ modifiedCount: 1 })
+  })
+
+  describe('issueSession', () => {
+    it('stores only a hash of the refresh secret', async () => {
+      const { refreshToken, session } = await issueSession(user)
+      const [sessionId, secret] = refreshToken.split('.')
+
+      expect(sessionId).toBe(session._id.toString())
+      expect(secret.length).toBeGreaterThan(40)
+      expect(sessions.get(sessionId).refreshTokenHash).not.toContain(secret)
+    })
+
+    it('binds the access token to the session', async () => {
+      const { token, session } = await issueSession(user)
+      const payload = verifyAccessToken(token)
+
+      expect(payload.id).toBe(user._id.toString())
+      expect(payload.sid).toBe(session._id.toString())
+    })
+  })
+
+  describe('rotateRefreshToken', () => {
+    it('returns a new token pair for the same session', async () => {
+      const issued = await issueSession(user)
+      const rotated = await rotateRefreshToken(issued.refreshToken, { ip: '203.0.113.7' })
+
+      expect(rotated.refreshToken).not.toBe(issued.refreshToken)
+      expect(rotated.refreshToken.split('.')[0]).toBe(issued.session._id.toString())
+      expect(verifyAccessToken(rotated.token).sid).toBe(issued.session._id.toString())
+      expect(rotated.user).toBe(user)
+      expect(sessions.get(issued.session._id.toString()).ip).toBe('203.0.113.7')
+    })
+
+    it('keeps rotating with each newly issued token', async () => {
+      const issued = await issueSession(user)
+      const first = await rotateRefreshToken(issued.refreshToken)
+      const second = await rotateRefreshToken(first.refreshToken)
+
+      expect(second.refreshToken).not.toBe(first.refreshToken)
+      expect(sessions.get(issued.session._id.toString()).revokedAt).toBeUndefined()
+    })
+
+    describe('reuse detection', () => {
+      it('revokes the session when a rotated token is presented again', async () => {
+        const issued = await issueSession(user)
+        await rotateRefreshToken(issued.refreshToken)
+
+        await expectAuthError(rotateRefreshToken(issued.refreshToken), 'reused')
+
+        const session = sessions.get(issued.session._id.toString())
+        expect(session.revokedAt).toBeInstanceOf(Date)
+        expect(session.revokedReason).toBe('refresh_token_reuse')
+      })
+
+      it('locks out the legitimate holder of the latest token too', async () => {
+        const issued = await issueSession(user)
+        const rotated = await rotateRefreshToken(issued.refreshToken)
+        await expectAuthError(rotateRefreshToken(issued.refreshToken), 'reused')
+
+        await expectAuthError(rotateRefreshToken(rotated.refreshToken), 'revoked')
+      })
+
+      it('lets only one of two concurrent rotations of the same token succeed', async () => {
+        const issued = await issueSession(user)
+        const results = await Promise.allSettled([rotateRefreshToken(issued.refreshToken), rotateRefreshToken(issued.refreshToken)])
+
+        expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1)
+        const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult
+        expect(rejected.reason).toBeInstanceOf(AuthTokenError)
+      })
+    })
+
+    describe('expiry and revocation', () => {
+      it('rejects a session past its expiry', async () => {
+        const issued = await issueSession(user)
+        sessions.get(issued.session._id.toString()).expiresAt = new Date(Date.now() - 1000)
+
+        await expectAuthError(rotateRefreshToken(issued.refreshToken), 'expired')
+      })
+
+      it('sets the expiry from REFRESH_TOKEN_EXPIRE_DAYS', async () => {
+        process.env.REFRESH_TOKEN_EXPIRE_DAYS = '2'
+        try {
+          const { session } = await issueSession(user)
+          const ttl = session.expiresAt.getTime() - Date.now()
+          expect(ttl).toBeGreaterThan(2 * DAY_MS - 60 * 1000)
+          expect(ttl).toBeLessThanOrEqual(2 * DAY_MS)
+        } finally {
+          delete process.env.REFRESH_TOKEN_EXPIRE_DAYS
+        }
+      })
+
+      it('rejects a revoked session', async () => {
+        const issued = await issueSession(user)
+        sessions.get(issued.session._id.toString()).revokedAt = new Date()
+
+        await expectAuthError(rotateRefreshToken(issued.refreshToken), 'revoked')
+      })
+
+      it('revokes the session of a deactivated user', async () => {
+        const issued = await issueSession(user)
+        user.isActive = false
+
+        await expectAuthError(rotateRefreshToken(issued.refreshToken), 'revoked')
+        expect(sessions.get(issued.session._id.toString()).revokedReason).toBe('user_inactive')
+      })
+
+      it('ends every session of the user on invalidateAllTokens', async () => {
+        const first = await issueSession(user)
+        const second = await issueSession(user)
+
+        await invalidateAllTokens(user._id, 'password_changed')
+
+        await expectAuthError(rotateRefreshToken(first.refreshToken), 'revoked')
+        await expectAuthError(rotateRefreshToken(second.refreshToken), 'revoked')
+        expect(mockedUser.updateOne).toHaveBeenCalledWith(
+          { _id: user._id },
+          { $set: { sessionsInvalidatedAt: expect.any(Date) } }
+        )
+      })
+    })
+
+    describe('malformed tokens', () => {
+      it.each(['', 'no-dot', '.secret', 'not-an-id.secret'])('rejects %p as invalid', async token => {
+        await expectAuthError(rotateRefreshToken(token), 'invalid')
+      })
+
+      it('rejects an unknown session', async () => {
+        await expectAuthError(rotateRefreshToken(`${new mongoose.Types.ObjectId()}.secret`), 'invalid')
+      })
+
+      it('rejects a wrong secret without revoking the session', async () => {
+        const issued = await issueSession(user)
+        await expectAuthError(rotateRefreshToken(`${issued.session._id}.wrong-secret`), 'invalid')
+
+        expect(sessions.get(issued.session._id.toString()).revokedAt).toBeUndefined()
+        await expect(rotateRefreshToken(issued.refreshToken)).resolves.toBeDefined()
+      })
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { Session, ISession } from '../models/Session'
+import { User, IUser } from '../models/User'
+
+const DEFAULT_ACCESS_EXPIRE = '15m'
+const DEFAULT_REFRESH_EXPIRE_DAYS = 30
+// lastUsedAt is only written once per interval to keep authenticated requests cheap
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000
+
+export type AuthTokenErrorReason = 'invalid' | 'expired' | 'revoked' | 'reused'
+
+export class AuthTokenError extends Error {
+  constructor(message: string, public readonly reason: AuthTokenErrorReason) {
+    super(message)
+    this.name = 'AuthTokenError'
+  }
+}
+
+export interface AccessTokenPayload {
+  id: string
+  // Session the token belongs to; tokens issued before sessions existed have none
+  sid?: string
+  iat?: number
+}
+
+// Request metadata recorded on a session so users can recognise their devices
+export interface SessionClient {
+  userAgent?: string
+  ip?: string
+}
+
+export interface IssuedTokens {
+  token: string
+  refreshToken: string
+  expiresIn: string
+  session: ISession
+}
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex')
+
+const newSecret = () => crypto.randomBytes(48).toString('base64url')
+
+const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET
+  if (!secret) throw new Error('JWT_SECRET is not set')
+  return secret
+}
+
+const getRefreshExpiry = () => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS || '', 10)
+  const ttlDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_REFRESH_EXPIRE_DAYS
+  return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000)
+}
+
+const signAccessToken = (userId: mongoose.Types.ObjectId, sessionId: mongoose.Types.ObjectId) => {
+  const expiresIn = process.env.JWT_ACCESS_EXPIRE || DEFAULT_ACCESS_EXPIRE
+  // The env value is a duration string such as "15m", which the ms-based type can't express
+  const signOptions: jwt.SignOptions = { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] }
+  return { token: jwt.sign({ id: userId, sid: sessionId }, getJwtSecret(), signOptions), expiresIn }
+}
+
+export const verifyAccessToken = (token: string): AccessTokenPayload =>
+  jwt.verify(token, getJwtSecret()) as AccessTokenPayload
+
+/**
+ * Starts a server-side session and returns a short-lived access token plus the
+ * session's refresh token (`<sessionId>.<secret>`).
+ */
+export const issueSession = async (user: IUser, client: SessionClient = {}): Promise<IssuedTokens> => {
+  const secret = newSecret()
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: hashSecret(secret),
+    expiresAt: getRefreshExpiry(),
+    userAgent: client.userAgent,
+    ip: client.ip,
+    lastUsedAt: new Date(),
+  })
+
+  const { token, expiresIn } = signAccessToken(user._id, session._id)
+  return { token, refreshToken: `${session._id}.${secret}`, expiresIn, session }
+}
+
+export const revokeSession = async (sessionId: mongoose.Types.ObjectId | string, reason: string) => {
+  await Session.updateOne({ _id: sessionId, revokedAt: null }, { $set: { revokedAt: new Date(), revokedReason: reason } })
+}
+
+export const revokeAllSessions = async (userId: mongoose.Types.ObjectId | string, reason: string) => {
+  await Session.updateMany({ userId, revokedAt: null }, { $set: { revokedAt: new Date(), revokedReason: reason } })
+}
+
+// Ends every session and rejects any access token issued before now, including legacy ones
+export const invalidateAllTokens = async (userId: mongoose.Types.ObjectId | string, reason: string) => {
+  await revokeAllSessions(userId, reason)
+  await User.updateOne({ _id: userId }, { $set: { sessionsInvalidatedAt: new Date() } })
+}
+
+/**
+ * Exchanges a refresh token for a new access/refresh token pair. Each refresh token is
+ * single-use: presenting one that has already been rotated revokes the whole session,
+ * since it means the token was copied.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  client: SessionClient = {}
+): Promise<IssuedTokens & { user: IUser }> => {
+  const [sessionId, secret] = refreshToken.split('.')
+  if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) {
+    throw new AuthTokenError('Invalid refresh token', 'invalid')
+  }
+
+  const session = await Session.findById(sessionId).select('+refreshTokenHash +previousRefreshTokenHash')
+  if (!session) throw new AuthTokenError('Invalid refresh token', 'invalid')
+  if (session.revokedAt) throw new AuthTokenError('Session has been revoked', 'revoked')
+  if (session.expiresAt.getTime() <= Date.now()) throw new AuthTokenError('Session has expired', 'expired')
+
+  const presentedHash = hashSecret(secret)
+  if (presentedHash !== session.refreshTokenHash) {
+    if (presentedHash === session.previousRefreshTokenHash) {
+      await revokeSession(session._id, 'refresh_token_reuse')
+      throw new AuthTokenError('Refresh token has already been used; session revoked', 'reused')
+    }
+    throw new AuthTokenError('Invalid refresh token', 'invalid')
+  }
+
+  const user = await User.findById(session.userId)
+  if (!user || !user.isActive) {
+    await revokeSession(session._id, 'user_inactive')
+    throw new AuthTokenError('Session has been revoked', 'revoked')
+  }
+
+  // Conditional on the hash so two concurrent refreshes cannot both succeed
+  const nextSecret = newSecret()
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+    {
+      $set: {
+        refreshTokenHash: hashSecret(nextSecret),
+        previousRefreshTokenHash: presentedHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        ...(client.ip && { ip: client.ip }),
+        ...(client.userAgent && { userAgent: client.userAgent }),
+      },
+    },
+    { new: true }
+  )
+  if (!rotated) throw new AuthTokenError('Invalid refresh token', 'invalid')
+
+  const { token, expiresIn } = signAccessToken(user._id, rotated._id)
+  return { token, refreshToken: `${rotated._id}.${nextSecret}`, expiresIn, session: rotated, user }
+}
+
+export const touchSession = async (session: ISession, client: SessionClient = {}) => {
+  if (Date.now() - (session.lastUsedAt?.getTime() ?? 0) < SESSION_TOUCH_INTERVAL_MS) return
+  await Session.updateOne(
+    { _id: session._id },
+    { $set: { lastUsedAt: new Date(), ...(client.ip && { ip: client.ip }) } }
+  )
+}
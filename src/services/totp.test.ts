@@ -0,0 +1,161 @@
+import {
+  base32Decode,
+  base32Encode,
+  currentTimeStep,
+  decryptSecret,
+  encryptSecret,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  verifyTotp,
+} from './totp'
+
+// RFC 6238 appendix B: SHA-1 with the ASCII seed "12345678901234567890". The RFC lists
+// 8-digit codes; the 6-digit codes used here are their last six digits.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'))
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+]
+
+const atTime = (seconds: number) => jest.setSystemTime(seconds * 1000)
+
+describe('totp', () => {
+  beforeAll(() => {
+    jest.useFakeTimers()
+  })
+
+  afterAll(() => {
+    jest.useRealTimers()
+  })
+
+  describe('base32', () => {
+    it('encodes the RFC 6238 seed', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    })
+
+    it('round-trips random secrets', () => {
+      const secret = generateTotpSecret()
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(base32Encode(base32Decode(secret))).toBe(secret)
+    })
+
+    it('ignores case, spacing and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv gy3t qojq====').toString('ascii')).toBe('1234567890')
+    })
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    it.each(RFC_VECTORS)('accepts the RFC 6238 code at T=%i', (seconds, code) => {
+      atTime(seconds)
+      expect(verifyTotp(RFC_SECRET, code)).toBe(currentTimeStep())
+    })
+
+    it('rejects malformed codes without comparing', () => {
+      atTime(59)
+      expect(verifyTotp(RFC_SECRET, '28708')).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '2870822')).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '28708a')).toBeNull()
+    })
+
+    it('rejects a wrong code', () => {
+      atTime(59)
+      expect(verifyTotp(RFC_SECRET, '287083')).toBeNull()
+    })
+
+    describe('window', () => {
+      // 1111111111 falls in step 37037037
+      const code = '050471'
+      const step = 37037037
+      const stepStart = step * 30
+
+      it('accepts the code from the previous step', () => {
+        atTime(stepStart + 30)
+        expect(verifyTotp(RFC_SECRET, code)).toBe(step)
+        atTime(stepStart + 59)
+        expect(verifyTotp(RFC_SECRET, code)).toBe(step)
+      })
+
+      it('accepts the code from the next step', () => {
+        atTime(stepStart - 30)
+        expect(verifyTotp(RFC_SECRET, code)).toBe(step)
+        atTime(stepStart - 1)
+        expect(verifyTotp(RFC_SECRET, code)).toBe(step)
+      })
+
+      it('rejects codes two steps away', () => {
+        atTime(stepStart + 60)
+        expect(verifyTotp(RFC_SECRET, code)).toBeNull()
+        atTime(stepStart - 31)
+        expect(verifyTotp(RFC_SECRET, code)).toBeNull()
+      })
+    })
+
+    describe('replay protection', () => {
+      it('rejects a code whose step has already been used', () => {
+        atTime(59)
+        const step = verifyTotp(RFC_SECRET, '287082')
+        expect(step).toBe(1)
+        expect(verifyTotp(RFC_SECRET, '287082', step!)).toBeNull()
+      })
+
+      it('rejects codes from steps before the last used one', () => {
+        atTime(1111111111)
+        expect(verifyTotp(RFC_SECRET, '081804')).toBe(37037036)
+        expect(verifyTotp(RFC_SECRET, '081804', 37037037)).toBeNull()
+      })
+
+      it('still accepts a later step', () => {
+        atTime(1111111111)
+        expect(verifyTotp(RFC_SECRET, '050471', 37037036)).toBe(37037037)
+      })
+    })
+  })
+
+  describe('secret encryption', () => {
+    const originalKey = process.env.TWO_FACTOR_ENCRYPTION_KEY
+
+    beforeEach(() => {
+      process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-two-factor-key'
+    })
+
+    afterEach(() => {
+      process.env.TWO_FACTOR_ENCRYPTION_KEY = originalKey
+    })
+
+    it('round-trips and never stores the secret in the clear', () => {
+      const encrypted = encryptSecret(RFC_SECRET)
+      expect(encrypted).not.toContain(RFC_SECRET)
+      expect(decryptSecret(encrypted)).toBe(RFC_SECRET)
+    })
+
+    it('fails on a tampered payload', () => {
+      const [iv, tag, data] = encryptSecret(RFC_SECRET).split('.')
+      const flipped = Buffer.from(data, 'base64')
+      flipped[0] ^= 1
+      expect(() => decryptSecret([iv, tag, flipped.toString('base64')].join('.'))).toThrow()
+    })
+  })
+
+  describe('backup codes', () => {
+    it('generates distinct codes in xxxxx-xxxxx form', () => {
+      const codes = generateBackupCodes()
+      expect(codes).toHaveLength(10)
+      expect(new Set(codes).size).toBe(10)
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/))
+    })
+
+    it('hashes codes regardless of case, spacing and dashes', () => {
+      expect(hashBackupCode(' ABCDE-12345 ')).toBe(hashBackupCode('abcde12345'))
+      expect(hashBackupCode('abcde-12345')).not.toBe(hashBackupCode('abcde-12346'))
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import jwt from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { User } from '../models/User'
+import { base32Encode, encryptSecret, hashBackupCode } from './totp'
+import { createLoginChallenge, verifyLoginChallenge, verifySecondFactor } from './twoFactor'
+import { AuthTokenError } from './tokens'
+
+jest.mock('../models/User', () => ({
+  User: { findById: jest.fn(), updateOne: jest.fn() },
+}))
+jest.mock('../models/SecuritySettings', () => ({ SecuritySettings: {} }))
+
+interface StoredUser {
+  _id: mongoose.Types.ObjectId
+  twoFactorEnabled: boolean
+  twoFactorSecret?: string
+  twoFactorLastStep?: number
+  twoFactorBackupCodes: string[]
+}
+
+const mockedUser = User as unknown as { findById: jest.Mock; updateOne: jest.Mock }
+
+// RFC 6238 seed; at T=59 the current code is 287082 (step 1)
+const SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'))
+const BACKUP_CODES = ['abcde-12345', 'fghij-67890']
+
+let stored: StoredUser
+
+// Applies the two conditional updates verifySecondFactor issues, with MongoDB's matching rules
+const applyUpdate = async (filter: any, update: any) => {
+  if (filter.twoFactorBackupCodes) {
+    const index = stored.twoFactorBackupCodes.indexOf(filter.twoFactorBackupCodes)
+    if (index === -1) return { modifiedCount: 0 }
+    stored.twoFactorBackupCodes.splice(index, 1)
+    return { modifiedCount: 1 }
+  }
+
+  const step = update.$set.twoFactorLastStep
+  if (stored.twoFactorLastStep !== undefined && stored.twoFactorLastStep >= step) return { modifiedCount: 0 }
+  stored.twoFactorLastStep = step
+  return { modifiedCount: 1 }
+}
+
+describe('twoFactor', () => {
+  const originalEnv = { ...process.env }
+
+  beforeAll(() => {
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-two-factor-key'
+    process.env.JWT_SECRET = 'test-jwt-secret'
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('verifySecondFactor', () => {
+    beforeAll(() => {
+      jest.useFakeTimers()
+    })
+
+    afterAll(() => {
+      jest.useRealTimers()
+    })
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      jest.setSystemTime(59 * 1000)
+      stored = {
+        _id: new mongoose.Types.ObjectId(),
+        twoFactorEnabled: true,
+        twoFactorSecret: encryptSecret(SECRET),
+        twoFactorBackupCodes: BACKUP_CODES.map(hashBackupCode),
+      }
+      // Each read returns a snapshot, as a real query would
+      mockedUser.findById.mockImplementation(() => ({ select: jest.fn().mockResolvedValue({ ...stored }) }))
+      mockedUser.updateOne.mockImplementation(applyUpdate)
+    })
+
+    it('accepts the current TOTP code and records its step', async () => {
+      await expect(verifySecondFactor(stored._id, '287 082')).resolves.toBe('totp')
+      expect(stored.twoFactorLastStep).toBe(1)
+    })
+
+    it('rejects the same TOTP code a second time', async () => {
+      await expect(verifySecondFactor(stored._id, '287082')).resolves.toBe('totp')
+      await expect(verifySecondFactor(stored._id, '287082')).resolves.toBeNull()
+    })
+
+    it('lets only one of two concurrent uses of a code succeed', async () => {
+      const results = await Promise.all([verifySecondFactor(stored._id, '287082'), verifySecondFactor(stored._id, '287082')])
+      expect(results.sort()).toEqual([null, 'totp'])
+    })
+
+    it('accepts a backup code exactly once', async () => {
+      await expect(verifySecondFactor(stored._id, 'ABCDE-12345')).resolves.toBe('backup')
+      expect(stored.twoFactorBackupCodes).toEqual([hashBackupCode('fghij-67890')])
+      await expect(verifySecondFactor(stored._id, 'abcde12345')).resolves.toBeNull()
+    })
+
+    it('keeps the other backup codes usable', async () => {
+      await verifySecondFactor(stored._id, 'abcde-12345')
+      await expect(verifySecondFactor(stored._id, 'fghij-67890')).resolves.toBe('backup')
+      expect(stored.twoFactorBackupCodes).toHaveLength(0)
+    })
+
+    it('rejects unknown codes without consuming anything', async () => {
+      await expect(verifySecondFactor(stored._id, '000000')).resolves.toBeNull()
+      await expect(verifySecondFactor(stored._id, 'zzzzz-00000')).resolves.toBeNull()
+      expect(stored.twoFactorBackupCodes).toHaveLength(2)
+      expect(stored.twoFactorLastStep).toBeUndefined()
+    })
+
+    it('rejects every code while two-factor is disabled', async () => {
+      stored.twoFactorEnabled = false
+      await expect(verifySecondFactor(stored._id, '287082')).resolves.toBeNull()
+      await expect(verifySecondFactor(stored._id, 'abcde-12345')).resolves.toBeNull()
+      expect(mockedUser.updateOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('login challenges', () => {
+    const user = { _id: new mongoose.Types.ObjectId() } as any
+
+    it('round-trips the user ID and issue time', () => {
+      const { userId, issuedAt } = verifyLoginChallenge(createLoginChallenge(user))
+      expect(userId).toBe(user._id.toString())
+      expect(issuedAt).toBeGreaterThan(0)
+    })
+
+    it('rejects tokens issued for another audience', () => {
+      const accessToken = jwt.sign({ sub: user._id.toString() }, process.env.JWT_SECRET!)
+      expect(() => verifyLoginChallenge(accessToken)).toThrow(new AuthTokenError('Invalid login challenge', 'invalid'))
+    })
+
+    it('reports expired challenges as expired', () => {
+      const expired = jwt.sign({ sub: user._id.toString() }, process.env.JWT_SECRET!, { audience: 'login:2fa', expiresIn: -1 })
+      try {
+        verifyLoginChallenge(expired)
+        throw new Error('expected verifyLoginChallenge to throw')
+      } catch (error) {
+        expect(error).toBeInstanceOf(AuthTokenError)
+        expect((error as AuthTokenError).reason).toBe('expired')
+      }
+    })
+  })
+})
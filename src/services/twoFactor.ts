@@ -0,0 +1,88 @@
+import jwt from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { User, IUser } from '../models/User'
+import { SecuritySettings } from '../models/SecuritySettings'
+import { decryptSecret, hashBackupCode, verifyTotp } from './totp'
+import { AuthTokenError } from './tokens'
+
+const CHALLENGE_AUDIENCE = 'login:2fa'
+const CHALLENGE_TTL_SECONDS = 5 * 60
+// Settings are read on every permission check, so keep them briefly in memory
+const SETTINGS_CACHE_MS = 30 * 1000
+
+let cachedRequiredRoles: { roles: string[]; loadedAt: number } | null = null
+
+const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET
+  if (!secret) throw new Error('JWT_SECRET is not set')
+  return secret
+}
+
+export const getTwoFactorRequiredRoles = async (): Promise<string[]> => {
+  if (cachedRequiredRoles && Date.now() - cachedRequiredRoles.loadedAt < SETTINGS_CACHE_MS) {
+    return cachedRequiredRoles.roles
+  }
+  const settings = await SecuritySettings.findOne({ key: 'global' }).lean()
+  cachedRequiredRoles = { roles: settings?.twoFactorRequiredRoles ?? [], loadedAt: Date.now() }
+  return cachedRequiredRoles.roles
+}
+
+export const setTwoFactorRequiredRoles = async (roles: string[], updatedBy: mongoose.Types.ObjectId) => {
+  const settings = await SecuritySettings.findOneAndUpdate(
+    { key: 'global' },
+    { $set: { twoFactorRequiredRoles: Array.from(new Set(roles)), updatedBy } },
+    { new: true, upsert: true, runValidators: true }
+  )
+  cachedRequiredRoles = null
+  return settings
+}
+
+// True when the user's platform or organization role is on the admin-configured list
+export const isTwoFactorRequired = async (user: IUser): Promise<boolean> => {
+  const roles = await getTwoFactorRequiredRoles()
+  return roles.includes(user.role) || (!!user.organizationRole && roles.includes(user.organizationRole))
+}
+
+// Short-lived proof that the password step succeeded
+export const createLoginChallenge = (user: IUser) =>
+  jwt.sign({ sub: user._id.toString() }, getJwtSecret(), {
+    audience: CHALLENGE_AUDIENCE,
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  })
+
+// Returns the challenged user's ID and when the password step was passed
+export const verifyLoginChallenge = (challengeToken: string): { userId: string; issuedAt: number } => {
+  try {
+    const payload = jwt.verify(challengeToken, getJwtSecret(), { audience: CHALLENGE_AUDIENCE }) as jwt.JwtPayload
+    return { userId: payload.sub as string, issuedAt: payload.iat ?? 0 }
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) throw new AuthTokenError('Login challenge has expired', 'expired')
+    throw new AuthTokenError('Invalid login challenge', 'invalid')
+  }
+}
+
+/**
+ * Checks a TOTP code against the confirmed secret, falling back to a backup code.
+ * Both paths are atomic: a TOTP step and a backup code can each be used only once.
+ */
+export const verifySecondFactor = async (userId: mongoose.Types.ObjectId | string, code: string): Promise<'totp' | 'backup' | null> => {
+  const user = await User.findById(userId).select('+twoFactorSecret +twoFactorLastStep')
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) return null
+
+  const normalized = code.replace(/\s+/g, '')
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), normalized, user.twoFactorLastStep)
+  if (step !== null) {
+    const claimed = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ twoFactorLastStep: { $exists: false } }, { twoFactorLastStep: { $lt: step } }],
+      },
+      { $set: { twoFactorLastStep: step } }
+    )
+    return claimed.modifiedCount === 1 ? 'totp' : null
+  }
+
+  const hash = hashBackupCode(normalized)
+  const used = await User.updateOne({ _id: user._id, twoFactorBackupCodes: hash }, { $pull: { twoFactorBackupCodes: hash } })
+  return used.modifiedCount === 1 ? 'backup' : null
+}
@@ -0,0 +1,83 @@
+// Request and response contracts shared by the AI service client, the rule-based
+// fallback engine and the local mock AI server.
+
+// An ingredient matched to the knowledge base (see services/ingredientResolver)
+export interface AIResolvedIngredient {
+  input: string
+  canonicalName: string
+  function?: string
+  hazardFlags?: string[]
+  allergenFlags?: string[]
+}
+
+export interface AIProductInput {
+  name?: string
+  category?: string
+  brand?: string
+  ingredients?: string[]
+  // Present once a stored product's ingredients have been resolved
+  resolvedIngredients?: AIResolvedIngredient[]
+  unresolvedIngredients?: string[]
+  description?: string
+  certifications?: string[]
+  packaging?: string
+  sustainability?: string
+}
+
+export type AIAnswers = Record<string, unknown>
+
+export interface AIQuestion {
+  questionText: string
+  questionType: 'text' | 'select' | 'multiselect'
+  options?: string[]
+  isRequired: boolean
+}
+
+export interface ScoreFactor {
+  factor: string
+  label: string
+  points: number
+  maxPoints: number
+}
+
+export interface ProductAnalysis {
+  summary: string
+  transparencyScore: number
+  analysis: {
+    strengths: string[]
+    improvements: string[]
+    recommendations: string[]
+  }
+}
+
+// POST /api/ai/generate-questions
+export interface GenerateQuestionsRequest {
+  productData: AIProductInput
+}
+
+export interface GenerateQuestionsResponse {
+  questions: AIQuestion[]
+}
+
+// POST /api/ai/transparency-score
+export interface TransparencyScoreRequest {
+  productData: AIProductInput
+  answers: AIAnswers
+}
+
+export interface TransparencyScoreResponse {
+  transparencyScore: number
+  factors?: ScoreFactor[]
+}
+
+// POST /api/ai/analyze-product
+export interface AnalyzeProductRequest {
+  product: AIProductInput
+  answers: AIAnswers
+}
+
+export interface AnalyzeProductResponse extends Omit<ProductAnalysis, 'transparencyScore'> {
+  transparencyScore?: number
+  questions?: AIQuestion[]
+  expectedQuestions?: string[]
+}
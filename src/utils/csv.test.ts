@@ -0,0 +1,116 @@
+import { parseCsv, parseCsvRecords, toCsvRow, toCsvValue } from './csv'
+
+describe('csv', () => {
+  describe('parseCsv', () => {
+    it('splits plain fields and rows', () => {
+      expect(parseCsv('a,b,c\n1,2,3')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ])
+    })
+
+    it('keeps delimiters inside quoted fields', () => {
+      expect(parseCsv('name,ingredients\n"Cream","Aqua, Glycerin"')).toEqual([
+        ['name', 'ingredients'],
+        ['Cream', 'Aqua, Glycerin'],
+      ])
+    })
+
+    it('unescapes doubled quotes', () => {
+      expect(parseCsv('"She said ""hi""",x')).toEqual([['She said "hi"', 'x']])
+    })
+
+    it('keeps quotes that do not open a field as literal text', () => {
+      expect(parseCsv('5" tube,x')).toEqual([['5" tube', 'x']])
+    })
+
+    it('keeps newlines inside quoted fields', () => {
+      expect(parseCsv('name,description\n"Soap","Line one\nLine two\r\nLine three"\nShampoo,Plain')).toEqual([
+        ['name', 'description'],
+        ['Soap', 'Line one\nLine two\r\nLine three'],
+        ['Shampoo', 'Plain'],
+      ])
+    })
+
+    it('accepts CRLF, LF and bare CR line endings', () => {
+      const expected = [
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', '4'],
+      ]
+      expect(parseCsv('a,b\r\n1,2\r\n3,4\r\n')).toEqual(expected)
+      expect(parseCsv('a,b\n1,2\n3,4\n')).toEqual(expected)
+      expect(parseCsv('a,b\r1,2\r3,4')).toEqual(expected)
+    })
+
+    it('ignores a leading byte order mark', () => {
+      expect(parseCsv('﻿name,brand\r\nCream,Acme')).toEqual([
+        ['name', 'brand'],
+        ['Cream', 'Acme'],
+      ])
+    })
+
+    it('skips blank lines but keeps rows of empty fields', () => {
+      expect(parseCsv('a,b\n\n1,2\n   \n,\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+        ['', ''],
+      ])
+    })
+
+    it('keeps a trailing empty field', () => {
+      expect(parseCsv('a,b,\n')).toEqual([['a', 'b', '']])
+    })
+
+    it('supports other delimiters', () => {
+      expect(parseCsv('a;"b;c"', ';')).toEqual([['a', 'b;c']])
+    })
+
+    it('rejects an unterminated quoted field', () => {
+      expect(() => parseCsv('name\n"Cream')).toThrow('Unterminated quoted field')
+    })
+
+    it('returns no rows for empty input', () => {
+      expect(parseCsv('')).toEqual([])
+      expect(parseCsv('﻿')).toEqual([])
+    })
+  })
+
+  describe('parseCsvRecords', () => {
+    it('keys cells by trimmed header', () => {
+      expect(parseCsvRecords(' Name , Brand \r\nCream,Acme\r\n')).toEqual([{ Name: 'Cream', Brand: 'Acme' }])
+    })
+
+    it('fills missing trailing cells with empty strings', () => {
+      expect(parseCsvRecords('name,brand,category\nCream')).toEqual([{ name: 'Cream', brand: '', category: '' }])
+    })
+
+    it('returns no records for a header-only or empty file', () => {
+      expect(parseCsvRecords('name,brand\n')).toEqual([])
+      expect(parseCsvRecords('')).toEqual([])
+    })
+
+    it('round-trips rows written with toCsvRow', () => {
+      const values = ['Cream, rich', 'He said "no"', 'two\nlines']
+      expect(parseCsv(toCsvRow(values))).toEqual([values])
+    })
+  })
+
+  describe('toCsvValue', () => {
+    it.each(['=SUM(A1)', '+1', '-1+1', '@cmd', '\tx', '\rx'])('neutralises formula prefix in %p', value => {
+      expect(toCsvValue(value).replace(/^"|"$/g, '')).toMatch(/^'/)
+    })
+
+    it('leaves negative numbers numeric', () => {
+      expect(toCsvValue(-5)).toBe('-5')
+    })
+
+    it('escapes each element of a list', () => {
+      expect(toCsvValue(['Aqua', '=cmd()'])).toBe("Aqua; '=cmd()")
+    })
+
+    it('escapes objects serialised to text', () => {
+      expect(toCsvValue({ toString: () => '=cmd()' })).toBe("'=cmd()")
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+ * Accepts CRLF or LF line endings and ignores a leading byte order mark and blank lines.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) throw new Error('Unterminated quoted field')
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
+
+// Uses the first row as headers; missing trailing cells become empty strings
+export const parseCsvRecords = (text: string, delimiter = ','): Record<string, string>[] => {
+  const [headers, ...rows] = parseCsv(text, delimiter)
+  if (!headers) return []
+  const keys = headers.map(header => header.trim())
+  return rows.map(cells => Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ''])))
+}
+
+// Cells a spreadsheet would evaluate as a formula are prefixed so exports can't run code
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeFormula = (text: string) => (FORMULA_PREFIX.test(text) ? `'${text}` : text)
+
+export const toCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  let text: string
+  // Each element is escaped too, since spreadsheet users often split list cells back apart
+  if (Array.isArray(value)) text = value.map(item => escapeFormula(item === undefined || item === null ? '' : String(item))).join('; ')
+  else if (value instanceof Date) text = value.toISOString()
+  else if (typeof value === 'object') text = value.toString === Object.prototype.toString ? JSON.stringify(value) : String(value)
+  else text = String(value)
+
+  // Numbers are left alone so negative values stay numeric
+  if (typeof value !== 'number') text = escapeFormula(text)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsvRow = (values: unknown[]): string => `${values.map(toCsvValue).join(',')}\r\n`
@@ -0,0 +1,80 @@
+import { Response } from 'express'
+import { toCsvRow } from './csv'
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+export interface ExportOptions<T> {
+  format: ExportFormat
+  // Without extension, e.g. "products"; the date and extension are appended
+  filename: string
+  // CSV header order; JSON formats emit the full row
+  columns: string[]
+  toRow: (doc: T) => Record<string, unknown>
+}
+
+/**
+ * Streams documents from a cursor to the response in the requested format. Waits for
+ * `drain` when the socket buffer is full, and stops reading when the client disconnects,
+ * so memory stays flat however large the export is.
+ */
+export const streamExport = async <T>(res: Response, cursor: AsyncIterable<T> & { close(): Promise<unknown> }, options: ExportOptions<T>) => {
+  const { format, columns, toRow } = options
+  const date = new Date().toISOString().slice(0, 10)
+
+  res.status(200)
+  res.setHeader('Content-Type', CONTENT_TYPES[format])
+  res.setHeader('Content-Disposition', `attachment; filename="${options.filename}-${date}.${format}"`)
+  res.setHeader('Cache-Control', 'no-store')
+
+  let closed = false
+  res.on('close', () => {
+    closed = true
+  })
+
+  const waitForDrain = () => new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done)
+      res.off('close', done)
+      resolve()
+    }
+    res.on('drain', done)
+    res.on('close', done)
+  })
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk) && !closed) await waitForDrain()
+  }
+
+  try {
+    if (format === 'csv') await write(toCsvRow(columns))
+    if (format === 'json') await write('[')
+
+    let first = true
+    for await (const doc of cursor) {
+      if (closed) break
+      const row = toRow(doc)
+      if (format === 'csv') {
+        await write(toCsvRow(columns.map(column => row[column])))
+      } else if (format === 'json') {
+        await write(`${first ? '\n' : ',\n'}${JSON.stringify(row)}`)
+      } else {
+        await write(`${JSON.stringify(row)}\n`)
+      }
+      first = false
+    }
+
+    if (format === 'json') await write(first ? ']' : '\n]\n')
+  } finally {
+    await cursor.close()
+  }
+
+  if (!closed) res.end()
+}
@@ -0,0 +1,233 @@
+import mongoose from 'mongoose'
+import { buildCursorPage, buildCursorQuery, CursorQuery, PaginationError, parseSort, SortSpec, sortOptions, toMongoSort } from './pagination'
+
+interface Row {
+  _id: mongoose.Types.ObjectId
+  name?: string | null
+  createdAt: Date
+}
+
+const objectId = (n: number) => new mongoose.Types.ObjectId(n.toString(16).padStart(24, '0'))
+const day = (d: number) => new Date(Date.UTC(2024, 0, d))
+
+// Ties on createdAt and missing names exercise the `_id` tiebreak and null handling
+const ROWS: Row[] = [
+  { _id: objectId(1), name: 'Cedar', createdAt: day(3) },
+  { _id: objectId(2), name: 'apple', createdAt: day(1) },
+  { _id: objectId(3), name: null, createdAt: day(3) },
+  { _id: objectId(4), name: 'Birch', createdAt: day(2) },
+  { _id: objectId(5), createdAt: day(3) },
+  { _id: objectId(6), name: 'Birch', createdAt: day(1) },
+  { _id: objectId(7), name: 'Dogwood', createdAt: day(2) },
+]
+
+// Minimal MongoDB semantics for the filters and sorts pagination produces
+const comparable = (value: unknown): number | string | null => {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.getTime()
+  if (value instanceof mongoose.Types.ObjectId) return value.toHexString()
+  return value as number | string
+}
+
+// null/missing sorts below every value, as in MongoDB
+const compare = (a: unknown, b: unknown) => {
+  const left = comparable(a)
+  const right = comparable(b)
+  if (left === right) return 0
+  if (left === null) return -1
+  if (right === null) return 1
+  return left < right ? -1 : 1
+}
+
+const matches = (row: Record<string, any>, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') return condition.every((part: any) => matches(row, part))
+    if (key === '$or') return condition.some((part: any) => matches(row, part))
+    const value = row[key]
+    if (condition && typeof condition === 'object' && !(condition instanceof Date) && !(condition instanceof mongoose.Types.ObjectId)) {
+      if ('$gt' in condition) return value !== null && value !== undefined && compare(value, condition.$gt) > 0
+      if ('$lt' in condition) return value !== null && value !== undefined && compare(value, condition.$lt) < 0
+      if ('$ne' in condition) return compare(value, condition.$ne) !== 0
+    }
+    return compare(value, condition) === 0
+  })
+
+const runQuery = (query: CursorQuery) =>
+  ROWS.filter(row => !query.filter || matches(row, query.filter))
+    .sort((a: any, b: any) => {
+      for (const [field, direction] of Object.entries(query.sort)) {
+        const order = compare(a[field], b[field]) * direction
+        if (order !== 0) return order
+      }
+      return 0
+    })
+    .slice(0, query.fetchLimit)
+
+const fetchPage = (sort: SortSpec, limit: number, cursor?: string) => {
+  const query = buildCursorQuery(sort, limit, cursor)
+  return buildCursorPage(runQuery(query), sort, limit, query)
+}
+
+const ids = (rows: Row[]) => rows.map(row => row._id.toHexString())
+
+const fullOrder = (sort: SortSpec) => ids(runQuery(buildCursorQuery(sort, ROWS.length)))
+
+const walkForward = (sort: SortSpec, limit: number) => {
+  const pages: string[][] = []
+  let page = fetchPage(sort, limit)
+  pages.push(ids(page.data))
+  while (page.pageInfo.nextCursor) {
+    page = fetchPage(sort, limit, page.pageInfo.nextCursor)
+    pages.push(ids(page.data))
+  }
+  return { pages, last: page }
+}
+
+const tamper = (cursor: string, edit: (payload: any) => void) => {
+  const [body, signature] = cursor.split('.')
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  edit(payload)
+  return `${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${signature}`
+}
+
+describe('pagination', () => {
+  const originalSecret = process.env.JWT_SECRET
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret'
+  })
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret
+  })
+
+  describe('sort parsing', () => {
+    it('reads a leading dash as descending', () => {
+      expect(parseSort('-createdAt', 'name')).toEqual({ field: 'createdAt', direction: -1 })
+      expect(parseSort('name', '-createdAt')).toEqual({ field: 'name', direction: 1 })
+    })
+
+    it('falls back when no sort is given', () => {
+      expect(parseSort(undefined, '-createdAt')).toEqual({ field: 'createdAt', direction: -1 })
+      expect(parseSort('', '-createdAt')).toEqual({ field: 'createdAt', direction: -1 })
+    })
+
+    it('lists both directions for each field', () => {
+      expect(sortOptions(['name', 'createdAt'])).toEqual(['name', '-name', 'createdAt', '-createdAt'])
+    })
+
+    it('breaks ties on _id in the same direction', () => {
+      expect(toMongoSort({ field: 'createdAt', direction: -1 })).toEqual({ createdAt: -1, _id: -1 })
+      expect(toMongoSort({ field: 'name', direction: 1 })).toEqual({ name: 1, _id: 1 })
+      expect(toMongoSort({ field: '_id', direction: 1 })).toEqual({ _id: 1 })
+    })
+  })
+
+  describe('traversal', () => {
+    const sorts: [string, SortSpec][] = [
+      ['createdAt descending with ties', { field: 'createdAt', direction: -1 }],
+      ['createdAt ascending with ties', { field: 'createdAt', direction: 1 }],
+      ['name ascending with nulls', { field: 'name', direction: 1 }],
+      ['name descending with nulls', { field: 'name', direction: -1 }],
+      ['_id only', { field: '_id', direction: 1 }],
+    ]
+
+    describe.each(sorts)('%s', (_label, sort) => {
+      it.each([1, 2, 3, 7])('visits every row exactly once forwards with limit %i', limit => {
+        const { pages, last } = walkForward(sort, limit)
+
+        expect(pages.flat()).toEqual(fullOrder(sort))
+        expect(last.pageInfo.hasNextPage).toBe(false)
+      })
+
+      it('walks back to the first page through prevCursor', () => {
+        const limit = 2
+        const { pages, last } = walkForward(sort, limit)
+
+        const backwards: string[][] = [ids(last.data)]
+        let page = last
+        while (page.pageInfo.prevCursor) {
+          page = fetchPage(sort, limit, page.pageInfo.prevCursor)
+          backwards.unshift(ids(page.data))
+        }
+
+        expect(backwards).toEqual(pages)
+        expect(page.pageInfo.hasPrevPage).toBe(false)
+        expect(page.pageInfo.hasNextPage).toBe(true)
+      })
+    })
+
+    it('reports no neighbours for a single complete page', () => {
+      const page = fetchPage({ field: 'createdAt', direction: -1 }, ROWS.length)
+
+      expect(page.data).toHaveLength(ROWS.length)
+      expect(page.pageInfo).toMatchObject({ hasNextPage: false, hasPrevPage: false, nextCursor: null, prevCursor: null })
+    })
+
+    it('restores dates from the cursor', () => {
+      const sort: SortSpec = { field: 'createdAt', direction: -1 }
+      const { nextCursor } = fetchPage(sort, 1).pageInfo
+
+      const query = buildCursorQuery(sort, 1, nextCursor!)
+      expect(query.cursor!.value).toEqual(day(3))
+      expect(query.cursor!.value).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('cursor validation', () => {
+    const sort: SortSpec = { field: 'createdAt', direction: -1 }
+    let cursor: string
+
+    beforeEach(() => {
+      cursor = fetchPage(sort, 2).pageInfo.nextCursor!
+    })
+
+    const expectInvalid = (value: string, message = 'Invalid cursor') => {
+      expect(() => buildCursorQuery(sort, 2, value)).toThrow(PaginationError)
+      expect(() => buildCursorQuery(sort, 2, value)).toThrow(message)
+    }
+
+    it.each(['garbage', 'e30', 'e30.', '.abc', `${'x'.repeat(40)}.${'y'.repeat(22)}`])('rejects malformed cursor %p', value => {
+      expectInvalid(value)
+    })
+
+    it('rejects a cursor without its signature', () => {
+      expectInvalid(cursor.split('.')[0])
+    })
+
+    it('rejects a cursor with extra segments', () => {
+      expectInvalid(`${cursor}.extra`)
+    })
+
+    it('rejects a cursor whose boundary row was changed', () => {
+      expectInvalid(tamper(cursor, payload => (payload.id = objectId(99).toHexString())))
+    })
+
+    it('rejects a cursor whose sort value was changed', () => {
+      expectInvalid(tamper(cursor, payload => (payload.v = { $date: day(9).toISOString() })))
+    })
+
+    it('rejects a cursor whose direction was flipped', () => {
+      expectInvalid(tamper(cursor, payload => (payload.d = 'prev')))
+    })
+
+    it('rejects a cursor signed with a different secret', () => {
+      process.env.JWT_SECRET = 'another-secret'
+      expectInvalid(cursor)
+    })
+
+    it('rejects a cursor issued for another sort order', () => {
+      expect(() => buildCursorQuery({ field: 'createdAt', direction: 1 }, 2, cursor)).toThrow('Cursor was created for a different sort order')
+    })
+
+    it('never turns a sort value into a query operator', () => {
+      // A row whose sort field holds an object still gets a signed cursor, which must not decode
+      const nameSort: SortSpec = { field: 'name', direction: 1 }
+      const rows = [{ _id: objectId(1), name: { $ne: null } }]
+      const fromCursor = { ...buildCursorQuery(nameSort, 1), cursor: { value: 'a', id: objectId(0), direction: 'next' as const } }
+      const { prevCursor } = buildCursorPage(rows, nameSort, 1, fromCursor).pageInfo
+
+      expect(() => buildCursorQuery(nameSort, 1, prevCursor!)).toThrow('Invalid cursor')
+    })
+  })
+})
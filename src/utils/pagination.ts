@@ -0,0 +1,179 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+
+export const PAGINATION_MODES = ['offset', 'cursor'] as const
+
+export type PaginationMode = typeof PAGINATION_MODES[number]
+
+export interface SortSpec {
+  field: string
+  direction: 1 | -1
+}
+
+export class PaginationError extends Error {}
+
+type CursorDirection = 'next' | 'prev'
+
+interface DecodedCursor {
+  value: unknown
+  id: mongoose.Types.ObjectId
+  direction: CursorDirection
+}
+
+export interface PageInfo {
+  limit: number
+  hasNextPage: boolean
+  hasPrevPage: boolean
+  nextCursor: string | null
+  prevCursor: string | null
+}
+
+const sortKey = (sort: SortSpec) => `${sort.direction === -1 ? '-' : ''}${sort.field}`
+
+// "-createdAt" / "createdAt" values accepted by the `sort` query parameter
+export const sortOptions = (fields: readonly string[]) => fields.flatMap(field => [field, `-${field}`])
+
+export const parseSort = (value: unknown, fallback: string): SortSpec => {
+  const key = typeof value === 'string' && value ? value : fallback
+  return key.startsWith('-') ? { field: key.slice(1), direction: -1 } : { field: key, direction: 1 }
+}
+
+// `_id` breaks ties so the order is total and no row is repeated or skipped between pages
+export const toMongoSort = (sort: SortSpec): Record<string, 1 | -1> =>
+  sort.field === '_id' ? { _id: sort.direction } : { [sort.field]: sort.direction, _id: sort.direction }
+
+// Cursors are signed so a client can only hand back one the API issued
+const getCursorKey = () => {
+  const secret = process.env.JWT_SECRET
+  if (!secret) throw new Error('JWT_SECRET is not set')
+  return crypto.createHash('sha256').update(`cursor:${secret}`).digest()
+}
+
+const signCursor = (body: string) => crypto.createHmac('sha256', getCursorKey()).update(body).digest('base64url').slice(0, 22)
+
+/**
+ * Cursors are opaque to clients: base64url JSON holding the sort key, the boundary row's
+ * sort value and `_id`, and which way to page from it, plus a signature. Dates are tagged
+ * so they round-trip.
+ */
+const encodeCursor = (sort: SortSpec, doc: Record<string, any>, direction: CursorDirection) => {
+  const value = doc[sort.field]
+  const payload = {
+    s: sortKey(sort),
+    v: value instanceof Date ? { $date: value.toISOString() } : value ?? null,
+    id: String(doc._id),
+    d: direction,
+  }
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${body}.${signCursor(body)}`
+}
+
+// Only plain values reach the query, so a cursor can never smuggle in an operator
+const decodeSortValue = (value: unknown): unknown => {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return value
+  if (value && typeof value === 'object' && Object.keys(value).length === 1 && typeof (value as any).$date === 'string') {
+    const date = new Date((value as any).$date)
+    if (!Number.isNaN(date.getTime())) return date
+  }
+  throw new PaginationError('Invalid cursor')
+}
+
+const decodeCursor = (cursor: string, sort: SortSpec): DecodedCursor => {
+  const [body, signature, ...rest] = cursor.split('.')
+  const expected = body ? signCursor(body) : ''
+  if (
+    !body ||
+    !signature ||
+    rest.length > 0 ||
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new PaginationError('Invalid cursor')
+  }
+
+  let payload: any
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  } catch {
+    throw new PaginationError('Invalid cursor')
+  }
+  if (!payload || typeof payload.id !== 'string' || !mongoose.isValidObjectId(payload.id) || (payload.d !== 'next' && payload.d !== 'prev')) {
+    throw new PaginationError('Invalid cursor')
+  }
+  if (payload.s !== sortKey(sort)) {
+    throw new PaginationError('Cursor was created for a different sort order')
+  }
+
+  return { value: decodeSortValue(payload.v), id: new mongoose.Types.ObjectId(payload.id), direction: payload.d }
+}
+
+/**
+ * Keyset condition for rows after (`after = true`) or before the boundary row in the
+ * given direction. MongoDB orders null/missing below every value, and `$gt`/`$lt` never
+ * match null, so rows without the sort field are handled explicitly.
+ */
+const keysetFilter = (field: string, value: unknown, id: mongoose.Types.ObjectId, ascending: boolean) => {
+  const idCondition = { _id: ascending ? { $gt: id } : { $lt: id } }
+  if (field === '_id') return idCondition
+
+  if (value === null || value === undefined) {
+    return ascending
+      ? { $or: [{ [field]: null, ...idCondition }, { [field]: { $ne: null } }] }
+      : { [field]: null, ...idCondition }
+  }
+
+  const beyond = { [field]: ascending ? { $gt: value } : { $lt: value } }
+  return {
+    $or: [beyond, { [field]: value, ...idCondition }, ...(ascending ? [] : [{ [field]: null }])],
+  }
+}
+
+export interface CursorQuery {
+  // Merge into the route's own filter with `$and`
+  filter: Record<string, any> | null
+  sort: Record<string, 1 | -1>
+  // Fetch one extra row to learn whether another page exists
+  fetchLimit: number
+  cursor: DecodedCursor | null
+}
+
+export const buildCursorQuery = (sort: SortSpec, limit: number, rawCursor?: string): CursorQuery => {
+  const cursor = rawCursor ? decodeCursor(rawCursor, sort) : null
+  // Paging backwards walks the index in reverse, then the page is flipped back
+  const reverse = cursor?.direction === 'prev'
+  const direction = (reverse ? -sort.direction : sort.direction) as 1 | -1
+
+  return {
+    filter: cursor ? keysetFilter(sort.field, cursor.value, cursor.id, direction === 1) : null,
+    sort: toMongoSort({ field: sort.field, direction }),
+    fetchLimit: limit + 1,
+    cursor,
+  }
+}
+
+export const buildCursorPage = <T extends Record<string, any>>(
+  rows: T[],
+  sort: SortSpec,
+  limit: number,
+  query: CursorQuery
+): { data: T[]; pageInfo: PageInfo } => {
+  const hasMore = rows.length > limit
+  const page = rows.slice(0, limit)
+  const backwards = query.cursor?.direction === 'prev'
+  if (backwards) page.reverse()
+
+  // Coming from a cursor implies rows exist on the side we came from
+  const hasNextPage = backwards ? true : hasMore
+  const hasPrevPage = backwards ? hasMore : !!query.cursor
+
+  return {
+    data: page,
+    pageInfo: {
+      limit,
+      hasNextPage,
+      hasPrevPage,
+      nextCursor: hasNextPage && page.length > 0 ? encodeCursor(sort, page[page.length - 1], 'next') : null,
+      prevCursor: hasPrevPage && page.length > 0 ? encodeCursor(sort, page[0], 'prev') : null,
+    },
+  }
+}
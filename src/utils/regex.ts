@@ -0,0 +1,5 @@
+// Escapes user input for literal use inside a RegExp or `$regex`
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Case-insensitive whole-value match, e.g. for filtering on a brand or list entry
+export const exactMatchRegex = (value: string) => new RegExp(`^${escapeRegex(value.trim())}$`, 'i')
@@ -0,0 +1,12 @@
+import { Request } from 'express'
+
+/**
+ * Client IP as resolved by Express. `X-Forwarded-For` is only honoured for the proxy hops
+ * configured with TRUST_PROXY_HOPS, so clients cannot pick their own address.
+ */
+export const getClientIp = (req: Request): string | undefined => req.ip || req.socket?.remoteAddress
+
+export const getUserAgent = (req: Request): string | undefined => {
+  const userAgent = req.headers['user-agent']
+  return userAgent ? userAgent.slice(0, 500) : undefined
+}